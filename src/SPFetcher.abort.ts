@@ -0,0 +1,94 @@
+import { SPAbortError } from './SPFetcher.errors';
+
+/**
+ * Create the error callers are rejected with when their signal aborts
+ */
+export function createAbortError() {
+  return new SPAbortError('The request was aborted.', { code: 'AbortError' });
+}
+
+/**
+ * Call listener once signal aborts
+ *
+ * @returns Removes the listener
+ */
+export function onAbort(signal: AbortSignal, listener: () => void) {
+  if (!signal) return (): void => undefined;
+  if (signal.aborted) {
+    listener();
+    return (): void => undefined;
+  }
+  signal.addEventListener('abort', listener);
+  return () => signal.removeEventListener('abort', listener);
+}
+
+/**
+ * Reject as soon as signal aborts, even if promise is still pending
+ */
+export function abortable<R>(promise: Promise<R>, signal?: AbortSignal) {
+  if (!signal) return promise;
+  return new Promise<R>((resolve, reject) => {
+    const off = onAbort(signal, () => reject(createAbortError()));
+    promise.then(
+      value => {
+        off();
+        resolve(value);
+      },
+      error => {
+        off();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Ids that stand in for signals in the options of PnP queryables. PnP copies
+ * those options through JSON, which turns a signal into an empty object.
+ * An id is registered while something holds it, so that signals which never
+ * abort are not kept forever.
+ */
+export class SignalRegistry {
+  private signals: { [id: string]: { signal: AbortSignal; holds: number } };
+  private ids: WeakMap<AbortSignal, string>;
+  private count: number;
+
+  constructor() {
+    this.signals = {};
+    this.ids = new WeakMap();
+    this.count = 0;
+  }
+
+  /**
+   * Get the id of signal, and hold it until release(id) is called
+   */
+  public register(signal: AbortSignal) {
+    let id = this.ids.get(signal);
+    if (!id) {
+      id = `${(this.count += 1)}`;
+      this.ids.set(signal, id);
+    }
+    const entry = (this.signals[id] = this.signals[id] || {
+      signal,
+      holds: 0
+    });
+    entry.holds += 1;
+    return id;
+  }
+
+  /**
+   * Drop a hold of id. The id is forgotten once nothing holds it.
+   */
+  public release(id: string) {
+    const entry = this.signals[id];
+    if (entry && (entry.holds -= 1) <= 0) delete this.signals[id];
+  }
+
+  /**
+   * Get the signal of id, or undefined if nothing holds it
+   */
+  public get(id: string) {
+    const entry = this.signals[id];
+    return entry ? entry.signal : undefined;
+  }
+}
@@ -1,7 +1,13 @@
-import { IList, IField } from '@pnp/sp/presets/all';
-import { ITerm, TaxonomyField, SPFetcherStructure } from './interfaces';
+import { Field, IList, IField, List } from '@pnp/sp/presets/all';
+import {
+  ITerm,
+  TaxonomyField,
+  SPFetcherStructure,
+  SPListRegistry
+} from './interfaces';
 import { SPFetcherInitializer } from './SPFetcher.initializer';
 import { SPFetcherBuildInterfaces } from './SPFetcher.buildInterfaces';
+import { abortable } from './SPFetcher.abort';
 
 /**
  * SPFetcherBase
@@ -60,15 +66,18 @@ import { SPFetcherBuildInterfaces } from './SPFetcher.buildInterfaces';
  */
 
 export class SPFetcherBase<
-  T extends SPFetcherStructure
-> extends SPFetcherBuildInterfaces<T> {
+  T extends SPFetcherStructure,
+  L extends SPListRegistry = SPListRegistry
+> extends SPFetcherBuildInterfaces<T, L> {
   /**
    * Utility method: Get interface for list
    */
-  public getFieldsInterface(list: IList) {
+  public getFieldsInterface(list: IList, signal?: AbortSignal) {
     return Promise.all([
-      list.get().then(r => (r.Title || 'List').split(' ').join('')),
-      this.getListFields(list)
+      this.withSignal(List(list), signal, query => query.get()).then(r =>
+        (r.Title || 'List').split(' ').join('')
+      ),
+      this.getListFields(list, signal)
         .then(fields =>
           fields.reduce(
             (prev, field) => ({
@@ -84,17 +93,20 @@ export class SPFetcherBase<
             .map(key => `\n  ${key}: ${r[key]};`)
             .join('')
         )
-    ]).then(([name, types]) => `interface I${name}Item {${types}\n}`);
+    ])
+      .then(([name, types]) => `interface I${name}Item {${types}\n}`)
+      .catch(this.fail(this.getSiteKey(list.toUrl())));
   }
 
   public getFieldsInterfaceByListId(
     id: string | string[],
-    site?: keyof SPFetcherInitializer<T>['sites']
+    site?: keyof SPFetcherInitializer<T>['sites'],
+    signal?: AbortSignal
   ) {
     return Promise.all(
       (id instanceof Array ? id : [id]).map(list_id =>
-        this.getListById(list_id, site).then(list =>
-          this.getFieldsInterface(list)
+        this.getListById(list_id, site, signal).then(list =>
+          this.getFieldsInterface(list, signal)
         )
       )
     ).then(r => r.join('\n\n'));
@@ -102,12 +114,13 @@ export class SPFetcherBase<
 
   public getFieldsInterfaceByListTitle(
     titles: string | string[],
-    site?: keyof SPFetcherInitializer<T>['sites']
+    site?: keyof SPFetcherInitializer<T>['sites'],
+    signal?: AbortSignal
   ) {
     return Promise.all(
       (titles instanceof Array ? titles : [titles]).map(title =>
-        this.getListByTitle(title, site).then(list =>
-          this.getFieldsInterface(list)
+        this.getListByTitle(title, site, signal).then(list =>
+          this.getFieldsInterface(list, signal)
         )
       )
     ).then(r => r.join('\n\n'));
@@ -121,10 +134,11 @@ export class SPFetcherBase<
   private getTaxonomyClosestParent(
     termset_id: string,
     new_path: string,
-    site?: keyof SPFetcherInitializer<T>['sites']
+    site?: keyof SPFetcherInitializer<T>['sites'],
+    signal?: AbortSignal
   ) {
     const split_path = new_path.split(';');
-    return this.getTermsetById(termset_id, site).then(
+    return this.getTermsetById(termset_id, site, signal).then(
       r =>
         r.reduce(
           ([highscore, highterm], term) => {
@@ -148,14 +162,16 @@ export class SPFetcherBase<
    * @param termset_id
    * @param parent_id
    * @param path
+   * @param signal
    */
   private addTaxonomyPath(
     sspid: string,
     termset_id: string,
     parent_id: string,
-    ...path: string[]
+    path: string[],
+    signal?: AbortSignal
   ): Promise<string> {
-    return this.ready().then(() =>
+    return abortable(this.ready(), signal).then(() =>
       path.length
         ? this.post(
             '_vti_bin/taxonomyinternalservice.json/CreateTaxonomyItem',
@@ -170,7 +186,9 @@ export class SPFetcherBase<
                 termsetId: termset_id,
                 newName: path[0]
               })
-            }
+            },
+            undefined,
+            { signal }
           )
             .then(r => r.json())
             .then(r =>
@@ -178,7 +196,8 @@ export class SPFetcherBase<
                 sspid,
                 termset_id,
                 r.d.Content.Id,
-                ...path.slice(1)
+                path.slice(1),
+                signal
               )
             )
         : parent_id
@@ -188,19 +207,23 @@ export class SPFetcherBase<
   public buildTaxonomyPath(
     sspid: string,
     termset_id: string,
-    new_path: string
+    new_path: string,
+    signal?: AbortSignal
   ) {
     const path = new_path;
     const split_path = path.split(';');
     return this.getTaxonomyClosestParent(
       termset_id,
-      new_path
+      new_path,
+      undefined,
+      signal
     ).then(([highscore, term]) =>
       this.addTaxonomyPath(
         sspid,
         termset_id,
         (term && term.Id) || termset_id,
-        ...split_path.slice(highscore + 1)
+        split_path.slice(highscore + 1),
+        signal
       )
     );
   }
@@ -210,11 +233,15 @@ export class SPFetcherBase<
    * @param field
    * @param new_path
    */
-  public buildTaxonomyPathByField(field: IField, new_path: string) {
-    return field
-      .get()
+  public buildTaxonomyPathByField(
+    field: IField,
+    new_path: string,
+    signal?: AbortSignal
+  ) {
+    return this.withSignal(Field(field), signal, query => query.get())
+      .catch(this.fail(this.getSiteKey(field.toUrl())))
       .then((field: TaxonomyField) =>
-        this.buildTaxonomyPath(field.SspId, field.TermSetId, new_path)
+        this.buildTaxonomyPath(field.SspId, field.TermSetId, new_path, signal)
       );
   }
 
@@ -226,10 +253,11 @@ export class SPFetcherBase<
   public buildTaxonomyPathByFieldId(
     id: string,
     new_path: string,
-    site?: keyof SPFetcherInitializer<T>['sites']
+    site?: keyof SPFetcherInitializer<T>['sites'],
+    signal?: AbortSignal
   ) {
-    return this.getFieldById(id, site).then(field =>
-      this.buildTaxonomyPathByField(field, new_path)
+    return this.getFieldById(id, site, signal).then(field =>
+      this.buildTaxonomyPathByField(field, new_path, signal)
     );
   }
 
@@ -241,10 +269,11 @@ export class SPFetcherBase<
   public buildTaxonomyPathByFieldTitle(
     title: string,
     new_path: string,
-    site?: keyof SPFetcherInitializer<T>['sites']
+    site?: keyof SPFetcherInitializer<T>['sites'],
+    signal?: AbortSignal
   ) {
-    return this.getFieldByTitle(title, site).then(field =>
-      this.buildTaxonomyPathByField(field, new_path)
+    return this.getFieldByTitle(title, site, signal).then(field =>
+      this.buildTaxonomyPathByField(field, new_path, signal)
     );
   }
 
@@ -256,10 +285,11 @@ export class SPFetcherBase<
   public buildTaxonomyPathByFieldInternalNameOrTitle(
     title: string,
     new_path: string,
-    site?: keyof SPFetcherInitializer<T>['sites']
+    site?: keyof SPFetcherInitializer<T>['sites'],
+    signal?: AbortSignal
   ) {
-    return this.getFieldByInternalNameOrTitle(title, site).then(field =>
-      this.buildTaxonomyPathByField(field, new_path)
+    return this.getFieldByInternalNameOrTitle(title, site, signal).then(field =>
+      this.buildTaxonomyPathByField(field, new_path, signal)
     );
   }
 }
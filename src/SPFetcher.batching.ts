@@ -0,0 +1,179 @@
+import { IWeb, SPBatch } from '@pnp/sp/presets/all';
+import { IBatchOptions, IBatchResult } from './interfaces';
+import { createAbortError, onAbort } from './SPFetcher.abort';
+
+export const defaultBatchOptions: IBatchOptions = {
+  maxSize: 50,
+  delay: 50
+};
+
+interface IBatchEntry {
+  request: (batch: SPBatch) => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+  result: Promise<IBatchResult>;
+}
+
+interface IBatchQueue {
+  batch: Promise<SPBatch>;
+  current?: SPBatch;
+  timer: any;
+  entries: IBatchEntry[];
+}
+
+/**
+ * Collects requests in one batch per site, and executes each batch once it is
+ * full, once its delay has passed or when flushed.
+ */
+export class SPBatchScheduler {
+  public options: IBatchOptions;
+  private queues: { [key: string]: IBatchQueue };
+  private onExecuted: (
+    key: string,
+    results: IBatchResult[],
+    duration: number
+  ) => void;
+
+  /**
+   * @param onExecuted - Called once all requests of a batch are done
+   */
+  constructor(
+    options: IBatchOptions = defaultBatchOptions,
+    onExecuted?: (
+      key: string,
+      results: IBatchResult[],
+      duration: number
+    ) => void
+  ) {
+    this.options = options;
+    this.queues = {};
+    this.onExecuted = onExecuted;
+  }
+
+  /**
+   * Add a request to the batch of the given site
+   *
+   * @param getWeb - Get the web of the site. Only called when a new batch is needed.
+   * @param request - Adds the request to the batch, e.g. query.inBatch(batch).get()
+   * Called right before the batch is executed.
+   * @param signal - Removes the request from the batch if it has not been executed yet
+   * @returns The result of this request alone
+   */
+  public add<R>(
+    key: string,
+    getWeb: () => Promise<IWeb>,
+    request: (batch: SPBatch) => Promise<R>,
+    signal?: AbortSignal
+  ): Promise<R> {
+    if (signal && signal.aborted) return Promise.reject(createAbortError());
+    const queue = (this.queues[key] =
+      this.queues[key] || this.createQueue(key, getWeb));
+    const entry = { request } as IBatchEntry;
+    const result = new Promise<R>((resolve, reject) => {
+      entry.resolve = resolve;
+      entry.reject = reject;
+    });
+    entry.result = result.then(
+      value => ({ status: 'fulfilled', value } as IBatchResult<R>),
+      reason => ({ status: 'rejected', reason } as IBatchResult<R>)
+    );
+    queue.entries.push(entry);
+    const off = onAbort(signal, () => {
+      const idx = queue.entries.indexOf(entry);
+      if (idx === -1) return;
+      queue.entries.splice(idx, 1);
+      entry.reject(createAbortError());
+    });
+    result.then(off, off);
+    if (queue.entries.length >= this.options.maxSize) this.flush(key);
+    return result;
+  }
+
+  /**
+   * Get the batch of the given site, to add requests to it directly. Each call
+   * counts as one request towards maxSize.
+   *
+   * @param web - Web of the site. Only used when a new batch is needed.
+   */
+  public reserve(key: string, web: IWeb): SPBatch {
+    const getWeb = () => Promise.resolve(web);
+    const queue = (this.queues[key] =
+      this.queues[key] || this.createQueue(key, getWeb));
+    const batch = (queue.current = queue.current || web.createBatch());
+    this.add(key, getWeb, () => Promise.resolve());
+    return batch;
+  }
+
+  /**
+   * Execute pending batches right away
+   *
+   * @param key - Only flush the batch of this site
+   * @returns The result of every request, once all batches are done
+   */
+  public flush(key?: string): Promise<IBatchResult[]> {
+    return Promise.all(
+      (key === undefined ? Object.keys(this.queues) : [key])
+        .filter(test => this.queues[test])
+        .map(test => this.execute(test))
+    ).then(results =>
+      results.reduce((prev, result) => prev.concat(result), [])
+    );
+  }
+
+  /**
+   * Number of requests waiting to be executed
+   */
+  public get pending() {
+    return Object.keys(this.queues).reduce(
+      (prev, key) => prev + this.queues[key].entries.length,
+      0
+    );
+  }
+
+  /**
+   * Drop all pending batches without executing them.
+   * Requests waiting in them are rejected with reason.
+   */
+  public clear(reason: any) {
+    Object.keys(this.queues).forEach(key => {
+      const queue = this.queues[key];
+      delete this.queues[key];
+      clearTimeout(queue.timer);
+      queue.entries.forEach(entry => entry.reject(reason));
+    });
+  }
+
+  private createQueue(key: string, getWeb: () => Promise<IWeb>): IBatchQueue {
+    const queue: IBatchQueue = {
+      batch: getWeb().then(
+        web => (queue.current = queue.current || web.createBatch())
+      ),
+      timer: setTimeout(() => this.flush(key), this.options.delay),
+      entries: []
+    };
+    return queue;
+  }
+
+  private execute(key: string) {
+    const queue = this.queues[key];
+    delete this.queues[key];
+    clearTimeout(queue.timer);
+    const entries = queue.entries.splice(0);
+    const started = Date.now();
+    if (!entries.length) return Promise.resolve([] as IBatchResult[]);
+    return queue.batch
+      .then(batch => {
+        entries.forEach(entry =>
+          entry.request(batch).then(entry.resolve, entry.reject)
+        );
+        return batch.execute();
+      })
+      .catch(error => entries.forEach(entry => entry.reject(error)))
+      .then(() => Promise.all(entries.map(entry => entry.result)))
+      .then(results => {
+        if (this.onExecuted)
+          this.onExecuted(key, results, Date.now() - started);
+        return results;
+      });
+  }
+}
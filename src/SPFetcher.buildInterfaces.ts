@@ -1,5 +1,5 @@
-import { IList } from '@pnp/sp/presets/all';
-import { SPFetcherStructure } from './interfaces';
+import { IList, List } from '@pnp/sp/presets/all';
+import { SPFetcherStructure, SPListRegistry } from './interfaces';
 import { SPFetcherUtils } from './SPFetcher.utils';
 
 function fixTitle(title: string, capitalize?: boolean) {
@@ -89,26 +89,33 @@ function createType(
 }
 
 export class SPFetcherBuildInterfaces<
-  T extends SPFetcherStructure
-> extends SPFetcherUtils<T> {
+  T extends SPFetcherStructure,
+  L extends SPListRegistry = SPListRegistry
+> extends SPFetcherUtils<T, L> {
   /**
    * Generate interface for the given list
    *
    * @param list
    */
-  public getListTypings(list: IList) {
+  public getListTypings(list: IList, signal?: AbortSignal) {
     return Promise.all([
-      list.select('Title', 'Description').get(),
-      list.fields.get().then(items =>
+      this.withSignal(
+        List(list).select('Title', 'Description'),
+        signal,
+        query => query.get()
+      ),
+      this.withSignal(list.fields, signal, fields => fields.get()).then(items =>
         items.map(item => ({
           title: item.InternalName,
           type: item['odata.type'].split('.').slice(-1)[0],
           description: item.Description
         }))
       )
-    ]).then(([{ Title, Description }, items]) =>
-      createType('interface', Title, Description, items, 'Item')
-    );
+    ])
+      .then(([{ Title, Description }, items]) =>
+        createType('interface', Title, Description, items, 'Item')
+      )
+      .catch(this.fail(this.getSiteKey(list.toUrl())));
   }
 
   /**
@@ -117,15 +124,22 @@ export class SPFetcherBuildInterfaces<
    * @param site_title
    * @param list_titles
    */
-  public getSiteTypings(site_title: string, list_titles: string[]) {
+  public getSiteTypings(
+    site_title: string,
+    list_titles: string[],
+    signal?: AbortSignal
+  ) {
     return Promise.all([
-      this.Web(site_title).then(web =>
-        web.select('Title', 'Description', 'Url').get()
+      this.withWeb(site_title, signal, web =>
+        web
+          .select('Title', 'Description', 'Url')
+          .get()
+          .catch(this.fail(site_title))
       ),
       Promise.all(
         list_titles.map(list =>
-          this.getListByTitle(list, site_title).then(list =>
-            this.getListTypings(list)
+          this.getListByTitle(list, site_title, signal).then(list =>
+            this.getListTypings(list, signal)
           )
         )
       )
@@ -153,9 +167,14 @@ export class SPFetcherBuildInterfaces<
    *
    * @param sites
    */
-  public getProjectTypings(sites: { [site: string]: string[] }) {
+  public getProjectTypings(
+    sites: { [site: string]: string[] },
+    signal?: AbortSignal
+  ) {
     return Promise.all(
-      Object.keys(sites).map(site => this.getSiteTypings(site, sites[site]))
+      Object.keys(sites).map(site =>
+        this.getSiteTypings(site, sites[site], signal)
+      )
     )
       .then(items => ({
         imports: uniquify(
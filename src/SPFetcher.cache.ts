@@ -0,0 +1,210 @@
+import {
+  ICacheEntry,
+  ICacheFilter,
+  ICacheOptions,
+  ICacheStore,
+  IRequestInfo
+} from './interfaces';
+
+/**
+ * Keeps entries in memory. Entries are lost when the page is reloaded.
+ */
+export class MemoryCacheStore implements ICacheStore {
+  private entries: { [id: string]: ICacheEntry };
+
+  constructor() {
+    this.entries = {};
+  }
+
+  public get(id: string) {
+    return this.entries[id];
+  }
+
+  public set(id: string, entry: ICacheEntry) {
+    this.entries[id] = entry;
+  }
+
+  public delete(id: string) {
+    delete this.entries[id];
+  }
+
+  public keys() {
+    return Object.keys(this.entries);
+  }
+}
+
+/**
+ * Keeps entries in sessionStorage or localStorage
+ *
+ * @example
+ * new WebStorageCacheStore(window.localStorage)
+ */
+export class WebStorageCacheStore implements ICacheStore {
+  private storage: Storage;
+  private prefix: string;
+
+  constructor(storage: Storage, prefix: string = 'spfetcher:') {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  public get(id: string) {
+    try {
+      return JSON.parse(this.storage.getItem(this.prefix + id)) as ICacheEntry;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  public set(id: string, entry: ICacheEntry) {
+    try {
+      this.storage.setItem(this.prefix + id, JSON.stringify(entry));
+    } catch (error) {
+      // Storage is full or unavailable. Skip caching.
+    }
+  }
+
+  public delete(id: string) {
+    this.storage.removeItem(this.prefix + id);
+  }
+
+  public keys() {
+    const keys: string[] = [];
+    for (let idx = 0; idx < this.storage.length; idx++) {
+      const key = this.storage.key(idx);
+      if (key && key.startsWith(this.prefix))
+        keys.push(key.slice(this.prefix.length));
+    }
+    return keys;
+  }
+}
+
+export const defaultCacheTTL: ICacheOptions['ttl'] = {
+  getProperties: 5 * 60 * 1000,
+  getDefaultLibraryId: 60 * 60 * 1000,
+  getListFields: 10 * 60 * 1000,
+  getTermsetById: 5 * 60 * 1000,
+  getContentTypeIds: 60 * 60 * 1000
+};
+
+function normalize(value: string) {
+  return value === undefined
+    ? undefined
+    : decodeURIComponent(value).toLowerCase().replace(/\/+$/g, '');
+}
+
+/**
+ * Get the site and list a request url points to
+ */
+export function getUrlScope(url: string) {
+  const list = url.match(
+    /lists\/getby(?:id|title)\('([^']*)'\)|lists\((?:guid)?'([^']*)'\)/i
+  );
+  return {
+    site: normalize(url.split(/\/_api\/|\/_vti_bin\//i)[0]),
+    list: list ? normalize(list[1] || list[2]) : undefined
+  };
+}
+
+/**
+ * Endpoints that are posted to without changing any data
+ */
+const READ_ONLY_POSTS = /\/_api\/contextinfo|clientPeoplePicker|RenderListData|\/_api\/search\//i;
+
+/**
+ * Get the urls of the writes in a request. Writes inside a $batch are read
+ * from its body.
+ */
+export function getWrites({ url, method, body }: IRequestInfo) {
+  return READ_ONLY_POSTS.test(url)
+    ? []
+    : /\/_api\/\$batch/i.test(url)
+    ? (
+        `${typeof body === 'string' ? body : ''}`.match(
+          /^(POST|PUT|PATCH|MERGE|DELETE) \S+/gim
+        ) || []
+      ).map(line => line.replace(/^\S+ /, ''))
+    : (method || 'GET').toUpperCase() === 'GET'
+    ? []
+    : [url];
+}
+
+/**
+ * Response cache with a time to live per method.
+ * Entries are scoped by site and list, so that they can be invalidated together.
+ */
+export class SPFetcherCache {
+  public options: ICacheOptions;
+  private onHit: (entry: ICacheEntry) => void;
+
+  /**
+   * @param onHit - Called whenever a value is served from the cache
+   */
+  constructor(options: ICacheOptions, onHit?: (entry: ICacheEntry) => void) {
+    this.options = options;
+    this.onHit = onHit;
+  }
+
+  /**
+   * Get a cached value, or load and cache it
+   *
+   * @param url - Url of the resource. Decides the site and list of the entry.
+   */
+  public get<R>(
+    method: string,
+    url: string,
+    load: () => Promise<R>,
+    key?: string
+  ): Promise<R> {
+    const ttl = this.options.ttl[method];
+    if (!ttl) return load();
+    const { site, list } = getUrlScope(url);
+    const id = [method, site, list || '', key || ''].join('|');
+    const entry = this.options.store.get(id);
+    if (entry && entry.expires > Date.now()) {
+      if (this.onHit) this.onHit(entry);
+      return Promise.resolve(entry.value as R);
+    }
+    return load().then(value => {
+      this.options.store.set(id, {
+        value,
+        expires: Date.now() + ttl,
+        method,
+        site,
+        list,
+        key
+      });
+      return value;
+    });
+  }
+
+  /**
+   * Remove all entries matching the filter. Removes everything without a filter.
+   */
+  public invalidate(filter: ICacheFilter = {}) {
+    const site = normalize(filter.site);
+    const list = normalize(filter.list);
+    this.options.store.keys().forEach(id => {
+      const entry = this.options.store.get(id);
+      if (
+        !entry ||
+        ((site === undefined || entry.site === site) &&
+          (list === undefined || entry.list === list) &&
+          (filter.method === undefined || entry.method === filter.method) &&
+          (filter.key === undefined || entry.key === filter.key))
+      )
+        this.options.store.delete(id);
+    });
+  }
+
+  /**
+   * Remove the entries affected by a request that changes data
+   */
+  public invalidateRequest(request: IRequestInfo) {
+    getWrites(request).forEach(url => {
+      if (/taxonomy|\/client\.svc\/ProcessQuery/i.test(url))
+        this.invalidate({ method: 'getTermsetById' });
+      this.invalidate(getUrlScope(url));
+    });
+  }
+}
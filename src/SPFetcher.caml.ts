@@ -0,0 +1,310 @@
+import { SPFilterField, SPFilterValue } from './SPFetcher.filter';
+
+/**
+ * Which items of a folder a view query returns
+ *
+ * - Recursive: files in the folder and its subfolders
+ * - RecursiveAll: files and folders in the folder and its subfolders
+ * - FilesOnly: files in the folder
+ */
+export type SPCamlScope =
+  | 'Default'
+  | 'Recursive'
+  | 'RecursiveAll'
+  | 'FilesOnly';
+
+/**
+ * Anything accepted as a CAML condition by the fetcher
+ */
+export type SPCamlInput = string | SPCaml | (string | SPCaml)[];
+
+/**
+ * Escape a string for use in CAML
+ */
+export function escapeXml(value: string) {
+  return `${value}`
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function fieldRef(field: string, attributes: string = '') {
+  return `<FieldRef Name="${escapeXml(
+    field === 'Id' ? 'ID' : field
+  )}"${attributes} />`;
+}
+
+/**
+ * Format a value for use in a CAML condition
+ */
+export function formatCamlValue(
+  field: string,
+  value: string | number | boolean | Date
+): string {
+  return value instanceof Date
+    ? `<Value Type="DateTime" IncludeTimeValue="TRUE" StorageTZ="TRUE">${value.toISOString()}</Value>`
+    : typeof value === 'boolean'
+    ? `<Value Type="Boolean">${value ? 1 : 0}</Value>`
+    : typeof value === 'number'
+    ? `<Value Type="${
+        field === 'Id' || field === 'ID' ? 'Counter' : 'Number'
+      }">${value}</Value>`
+    : `<Value Type="Text">${escapeXml(value)}</Value>`;
+}
+
+/**
+ * A CAML condition
+ */
+export class SPCaml<I = any> {
+  private readonly xml: string;
+
+  constructor(xml: string) {
+    this.xml = xml;
+  }
+
+  /**
+   * Combine conditions. Strings are used as they are.
+   * CAML only combines two conditions at a time, so they are nested.
+   */
+  public static join(
+    operator: 'And' | 'Or',
+    conditions: (string | SPCaml)[]
+  ): SPCaml {
+    const parts = conditions.filter(test => test && `${test}`.length);
+    return new SPCaml(
+      parts.length
+        ? parts
+            .map(part => `${part}`)
+            .reduceRight(
+              (prev, part) => `<${operator}>${part}${prev}</${operator}>`
+            )
+        : ''
+    );
+  }
+
+  /**
+   * Create a condition from any accepted input
+   */
+  public static from(input: SPCamlInput) {
+    return input instanceof SPCaml
+      ? input
+      : SPCaml.join('And', [].concat(input || []));
+  }
+
+  public and(...conditions: (string | SPCaml<I>)[]): SPCaml<I> {
+    return SPCaml.join('And', [this, ...conditions]);
+  }
+
+  public or(...conditions: (string | SPCaml<I>)[]): SPCaml<I> {
+    return SPCaml.join('Or', [this, ...conditions]);
+  }
+
+  public toString() {
+    return this.xml;
+  }
+}
+
+/**
+ * Build typed CAML conditions for items of type I.
+ * Filter on indexed columns to query lists past the list view threshold.
+ *
+ * @example
+ * const c = createCaml<ITasksItem>();
+ * c.eq('Status', 'Done').and(c.geq('Modified', new Date(2020, 0, 1)), c.lookupId('AssignedTo', 7))
+ */
+export class SPCamlBuilder<I = any> {
+  public compare<K extends SPFilterField<I> | 'Id'>(
+    field: K,
+    operator: 'Eq' | 'Neq' | 'Lt' | 'Leq' | 'Gt' | 'Geq',
+    value: K extends SPFilterField<I> ? SPFilterValue<I[K]> : number
+  ) {
+    return new SPCaml<I>(
+      `<${operator}>${fieldRef(field)}${formatCamlValue(
+        field,
+        value as string | number | boolean | Date
+      )}</${operator}>`
+    );
+  }
+
+  public eq<K extends SPFilterField<I> | 'Id'>(
+    field: K,
+    value: K extends SPFilterField<I> ? SPFilterValue<I[K]> : number
+  ) {
+    return this.compare(field, 'Eq', value);
+  }
+
+  public neq<K extends SPFilterField<I> | 'Id'>(
+    field: K,
+    value: K extends SPFilterField<I> ? SPFilterValue<I[K]> : number
+  ) {
+    return this.compare(field, 'Neq', value);
+  }
+
+  public lt<K extends SPFilterField<I> | 'Id'>(
+    field: K,
+    value: K extends SPFilterField<I> ? SPFilterValue<I[K]> : number
+  ) {
+    return this.compare(field, 'Lt', value);
+  }
+
+  public leq<K extends SPFilterField<I> | 'Id'>(
+    field: K,
+    value: K extends SPFilterField<I> ? SPFilterValue<I[K]> : number
+  ) {
+    return this.compare(field, 'Leq', value);
+  }
+
+  public gt<K extends SPFilterField<I> | 'Id'>(
+    field: K,
+    value: K extends SPFilterField<I> ? SPFilterValue<I[K]> : number
+  ) {
+    return this.compare(field, 'Gt', value);
+  }
+
+  public geq<K extends SPFilterField<I> | 'Id'>(
+    field: K,
+    value: K extends SPFilterField<I> ? SPFilterValue<I[K]> : number
+  ) {
+    return this.compare(field, 'Geq', value);
+  }
+
+  public beginsWith(field: SPFilterField<I>, value: string) {
+    return new SPCaml<I>(
+      `<BeginsWith>${fieldRef(field)}${formatCamlValue(
+        field,
+        value
+      )}</BeginsWith>`
+    );
+  }
+
+  public contains(field: SPFilterField<I>, value: string) {
+    return new SPCaml<I>(
+      `<Contains>${fieldRef(field)}${formatCamlValue(field, value)}</Contains>`
+    );
+  }
+
+  public isNull(field: SPFilterField<I>) {
+    return new SPCaml<I>(`<IsNull>${fieldRef(field)}</IsNull>`);
+  }
+
+  public isNotNull(field: SPFilterField<I>) {
+    return new SPCaml<I>(`<IsNotNull>${fieldRef(field)}</IsNotNull>`);
+  }
+
+  /**
+   * Field equals one of values
+   */
+  public in<K extends SPFilterField<I> | 'Id'>(
+    field: K,
+    values: (K extends SPFilterField<I> ? SPFilterValue<I[K]> : number)[]
+  ) {
+    return new SPCaml<I>(
+      `<In>${fieldRef(field)}<Values>${values
+        .map(value =>
+          formatCamlValue(field, value as string | number | boolean | Date)
+        )
+        .join('')}</Values></In>`
+    );
+  }
+
+  /**
+   * Compare the id of the item a lookup or user field points to
+   */
+  public lookupId(field: SPFilterField<I>, id: number) {
+    return new SPCaml<I>(
+      `<Eq>${fieldRef(
+        field,
+        ' LookupId="TRUE"'
+      )}<Value Type="Integer">${id}</Value></Eq>`
+    );
+  }
+
+  /**
+   * The user field points to the current user
+   */
+  public isMe(field: SPFilterField<I>) {
+    return new SPCaml<I>(
+      `<Eq>${fieldRef(
+        field
+      )}<Value Type="Integer"><UserID Type="Integer" /></Value></Eq>`
+    );
+  }
+
+  public and(...conditions: (string | SPCaml<I>)[]): SPCaml<I> {
+    return SPCaml.join('And', conditions);
+  }
+
+  public or(...conditions: (string | SPCaml<I>)[]): SPCaml<I> {
+    return SPCaml.join('Or', conditions);
+  }
+}
+
+/**
+ * Get a CAML builder, optionally typed against an item interface
+ */
+export function createCaml<I = any>() {
+  return new SPCamlBuilder<I>();
+}
+
+/**
+ * Query for renderListData
+ */
+export interface ICamlQuery<I = any> {
+  where?: SPCamlInput;
+  orderBy?: { field: SPFilterField<I> | 'Id'; ascending?: boolean }[];
+
+  /**
+   * Fields to return. Defaults to the fields of the default view.
+   */
+  select?: (SPFilterField<I> | 'Id')[];
+  scope?: SPCamlScope;
+
+  /**
+   * Page size
+   */
+  top?: number;
+
+  /**
+   * Only return items in this folder. Paths that are not server relative
+   * are relative to the web of the list.
+   */
+  folder?: string;
+
+  /**
+   * Token of the page to get, from a previous page
+   */
+  paging?: string;
+}
+
+/**
+ * Build the view xml of a query
+ *
+ * @example
+ * createViewXml({ where: createCaml().eq('Status', 'Done'), scope: 'RecursiveAll', top: 500 });
+ */
+export function createViewXml(query: ICamlQuery) {
+  const where = `${SPCaml.from(query.where || [])}`;
+  const orderBy = (query.orderBy || [])
+    .map(({ field, ascending }) =>
+      fieldRef(field, ascending === false ? ' Ascending="FALSE"' : '')
+    )
+    .join('');
+  return [
+    query.scope && query.scope !== 'Default'
+      ? `<View Scope="${query.scope}">`
+      : '<View>',
+    '<Query>',
+    where ? `<Where>${where}</Where>` : '',
+    orderBy ? `<OrderBy>${orderBy}</OrderBy>` : '',
+    '</Query>',
+    query.select
+      ? `<ViewFields>${query.select
+          .map(field => fieldRef(field))
+          .join('')}</ViewFields>`
+      : '',
+    query.top ? `<RowLimit Paged="TRUE">${query.top}</RowLimit>` : '',
+    '</View>'
+  ].join('');
+}
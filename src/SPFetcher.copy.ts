@@ -0,0 +1,100 @@
+import { ConflictBehavior, ICopyResult } from './interfaces';
+import { SPFetcherError } from './SPFetcher.errors';
+
+/**
+ * How often to ask SharePoint about the progress of a copy job (ms)
+ */
+export const DEFAULT_POLL_INTERVAL = 1000;
+
+/**
+ * Values of NameConflictBehavior in the options of CreateCopyJobs
+ */
+export const nameConflictBehaviors: { [key in ConflictBehavior]: number } = {
+  fail: 0,
+  overwrite: 1,
+  rename: 2
+};
+
+/**
+ * An entry in the logs of a copy job
+ */
+export interface ICopyLog {
+  Event: string;
+  Message?: string;
+  ErrorCode?: number;
+  SourceObjectFullUrl?: string;
+  TargetObjectUrl?: string;
+  [key: string]: any;
+}
+
+/**
+ * Parse logs returned by GetCopyJobProgress. Logs that are not JSON are ignored.
+ */
+export function parseCopyLogs(logs: string[]): ICopyLog[] {
+  return (logs || []).reduce((prev, log) => {
+    try {
+      return prev.concat(JSON.parse(log));
+    } catch (error) {
+      return prev;
+    }
+  }, [] as ICopyLog[]);
+}
+
+/**
+ * Read the value of a response in nometadata, minimalmetadata or verbose OData
+ */
+export function getODataValue(body: any): any {
+  if (body && body.value !== undefined) return body.value;
+  if (body && body.d) {
+    const value = body.d[Object.keys(body.d)[0]];
+    return value && value.results ? value.results : value;
+  }
+  return body;
+}
+
+function normalizeUrl(url: string) {
+  try {
+    return decodeURI(`${url || ''}`).toLowerCase();
+  } catch (error) {
+    return `${url || ''}`.toLowerCase();
+  }
+}
+
+function isSame(a: string, b: string) {
+  return normalizeUrl(a) === normalizeUrl(b);
+}
+
+/**
+ * Get the result of every source of a job from its logs.
+ * Errors that do not name a source are given to every source of the job
+ * that has no result.
+ */
+export function getCopyResults(sources: string[], logs: ICopyLog[]) {
+  const failures = logs.filter(
+    log => log.Event === 'JobError' || log.Event === 'JobFatalError'
+  );
+  const general = failures.filter(log => !log.SourceObjectFullUrl);
+  return sources.map(
+    (source): ICopyResult => {
+      const failure =
+        failures.find(log => isSame(log.SourceObjectFullUrl, source)) ||
+        general[0];
+      const finished = logs.find(
+        log =>
+          log.Event === 'JobFinishedObjectInfo' &&
+          isSame(log.SourceObjectFullUrl, source)
+      );
+      return finished && !(failure && failure.SourceObjectFullUrl)
+        ? { source, target: finished.TargetObjectUrl }
+        : failure
+        ? {
+            source,
+            error: new SPFetcherError(failure.Message || 'Copy failed', {
+              code: `${failure.ErrorCode || 'CopyFailed'}`,
+              url: source
+            })
+          }
+        : { source };
+    }
+  );
+}
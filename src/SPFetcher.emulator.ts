@@ -0,0 +1,1208 @@
+import {
+  IEmulatorContentType,
+  IEmulatorField,
+  IEmulatorList,
+  IEmulatorWeb,
+  IRequestInfo,
+  ITestContextOptions,
+  Transport
+} from './interfaces';
+import { createTestContext } from './SPFetcher.testing';
+import { createGuid } from './SPFetcher.upload';
+
+interface IEmulatorResponse {
+  status: number;
+  body?: any;
+  headers?: { [key: string]: string };
+}
+
+interface IEmulatorRequest {
+  method: string;
+  url: string;
+  headers: Headers;
+  body: string;
+
+  /**
+   * Size of the body in bytes, also for binary bodies
+   */
+  size?: number;
+}
+
+/**
+ * An upload session of a file, by upload id
+ */
+interface IEmulatorUpload {
+  path: string;
+  offset: number;
+}
+
+type EmulatorNode =
+  | { kind: 'web' }
+  | { kind: 'lists' }
+  | { kind: 'list'; list: IEmulatorList }
+  | { kind: 'items'; list: IEmulatorList }
+  | { kind: 'item'; list: IEmulatorList; item: { [key: string]: any } }
+  | { kind: 'fields'; list?: IEmulatorList; fields: IEmulatorField[] }
+  | { kind: 'field'; field: IEmulatorField }
+  | { kind: 'contentTypes'; list?: IEmulatorList }
+  | {
+      kind: 'contentType';
+      list?: IEmulatorList;
+      contentType: IEmulatorContentType;
+    }
+  | { kind: 'storageEntity'; key: string }
+  | { kind: 'path'; path: string }
+  | { kind: 'folders' }
+  | { kind: 'files'; path: string }
+  | {
+      kind: 'call';
+      name: string;
+      path: string;
+      params: { [key: string]: string };
+    };
+
+const statusTexts: { [status: number]: string } = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  404: 'Not Found',
+  501: 'Not Implemented'
+};
+
+const fieldTypes: { [type: string]: string } = {
+  Text: 'SP.FieldText',
+  Note: 'SP.FieldMultiLineText',
+  Number: 'SP.FieldNumber',
+  Currency: 'SP.FieldCurrency',
+  DateTime: 'SP.FieldDateTime',
+  Choice: 'SP.FieldChoice',
+  MultiChoice: 'SP.FieldMultiChoice',
+  Lookup: 'SP.FieldLookup',
+  LookupMulti: 'SP.FieldLookup',
+  User: 'SP.FieldUser',
+  UserMulti: 'SP.FieldUser',
+  URL: 'SP.FieldUrl',
+  Calculated: 'SP.FieldCalculated',
+  Computed: 'SP.FieldComputed',
+  TaxonomyFieldType: 'SP.Taxonomy.TaxonomyField',
+  TaxonomyFieldTypeMulti: 'SP.Taxonomy.TaxonomyField'
+};
+
+function trimUrl(url: string) {
+  return `${url}`.replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Get the size of a request body in bytes
+ */
+function getBodySize(body: any) {
+  if (typeof body === 'string') return body.length;
+  if (body instanceof Blob) return body.size;
+  return body && body.byteLength !== undefined ? body.byteLength : 0;
+}
+
+function createError(status: number, message: string): IEmulatorResponse {
+  return {
+    status,
+    body: {
+      'odata.error': {
+        code: '-2147024809, System.ArgumentException',
+        message: { lang: 'en-US', value: message }
+      }
+    }
+  };
+}
+
+/**
+ * Split a path into segments, keeping slashes inside parentheses
+ */
+function splitPath(path: string) {
+  const segments: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (let idx = 0; idx < path.length; idx++) {
+    const char = path[idx];
+    if (char === "'") quoted = !quoted;
+    if (!quoted && char === '(') depth += 1;
+    if (!quoted && char === ')') depth -= 1;
+    if (char === '/' && depth === 0 && !quoted) {
+      if (current) segments.push(current);
+      current = '';
+    } else current += char;
+  }
+  if (current) segments.push(current);
+  return segments.map(segment => {
+    const match = /^([^(]*)(?:\((.*)\))?$/.exec(segment);
+    const arg =
+      match[2] === undefined
+        ? undefined
+        : match[2]
+            .replace(/^\w+=/, '')
+            .replace(/^guid'(.*)'$/i, '$1')
+            .replace(/^'(.*)'$/, '$1')
+            .replace(/''/g, "'");
+    return {
+      name: match[1].toLowerCase(),
+      arg,
+      params: parseParams(match[2] || '')
+    };
+  });
+}
+
+/**
+ * Read the named parameters of a function in a path, e.g.
+ * `decodedurl='a.txt',Overwrite=true`. Names are lower case.
+ */
+function parseParams(params: string) {
+  const parsed: { [key: string]: string } = {};
+  (params.match(/\w+=('(?:[^']|'')*'|guid'[^']*'|[^,]*)/g) || []).forEach(
+    param => {
+      const split = param.indexOf('=');
+      parsed[param.slice(0, split).toLowerCase()] = param
+        .slice(split + 1)
+        .replace(/^guid'(.*)'$/i, '$1')
+        .replace(/^'(.*)'$/, '$1')
+        .replace(/''/g, "'");
+    }
+  );
+  return parsed;
+}
+
+/**
+ * Read the query string of an url. Values are decoded.
+ */
+function parseQuery(url: string) {
+  const query: { [key: string]: string } = {};
+  const idx = url.indexOf('?');
+  if (idx === -1) return query;
+  url
+    .slice(idx + 1)
+    .split('&')
+    .filter(part => part.length)
+    .forEach(part => {
+      const split = part.indexOf('=');
+      const key = split === -1 ? part : part.slice(0, split);
+      const value = split === -1 ? '' : part.slice(split + 1);
+      try {
+        query[decodeURIComponent(key).toLowerCase()] = decodeURIComponent(
+          value
+        );
+      } catch (error) {
+        query[key.toLowerCase()] = value;
+      }
+    });
+  return query;
+}
+
+interface IFilterToken {
+  type: 'value' | 'name' | '(' | ')' | ',';
+  value?: any;
+}
+
+function tokenizeFilter(filter: string) {
+  const tokens: IFilterToken[] = [];
+  const pattern = /^\s*(?:(datetime)?'((?:[^']|'')*)'|(-?\d+(?:\.\d+)?)(?![\w.])|([A-Za-z_][\w/.]*)|([(),]))/;
+  let rest = filter;
+  while (rest.trim().length) {
+    const match = pattern.exec(rest);
+    if (!match) throw new Error(`Could not parse $filter: ${filter}`);
+    rest = rest.slice(match[0].length);
+    if (match[2] !== undefined) {
+      const text = match[2].replace(/''/g, "'");
+      tokens.push({ type: 'value', value: match[1] ? new Date(text) : text });
+    } else if (match[3] !== undefined)
+      tokens.push({ type: 'value', value: parseFloat(match[3]) });
+    else if (match[4] !== undefined)
+      tokens.push({ type: 'name', value: match[4] });
+    else tokens.push({ type: match[5] as '(' | ')' | ',' });
+  }
+  return tokens;
+}
+
+function getPath(entity: any, path: string) {
+  return path
+    .split('/')
+    .reduce(
+      (prev, key) =>
+        prev === undefined || prev === null ? undefined : prev[key],
+      entity
+    );
+}
+
+function compareValues(a: any, b: any) {
+  if (a instanceof Date || b instanceof Date) {
+    a = a === null || a === undefined ? a : new Date(a).getTime();
+    b = b === null || b === undefined ? b : new Date(b).getTime();
+  }
+  if (typeof a === 'boolean') a = a ? 1 : 0;
+  if (typeof b === 'boolean') b = b ? 1 : 0;
+  if (typeof a === 'string' && typeof b === 'string') {
+    a = a.toLowerCase();
+    b = b.toLowerCase();
+  }
+  return a === b ? 0 : a === null || a === undefined || a < b ? -1 : 1;
+}
+
+const comparisons: { [op: string]: (a: any, b: any) => boolean } = {
+  eq: (a, b) => compareValues(a, b) === 0,
+  ne: (a, b) => compareValues(a, b) !== 0,
+  lt: (a, b) => compareValues(a, b) < 0,
+  le: (a, b) => compareValues(a, b) <= 0,
+  gt: (a, b) => compareValues(a, b) > 0,
+  ge: (a, b) => compareValues(a, b) >= 0
+};
+
+const functions: { [name: string]: (...args: any[]) => any } = {
+  startswith: (value, prefix) =>
+    `${value || ''}`.toLowerCase().startsWith(`${prefix}`.toLowerCase()),
+  substringof: (needle, value) =>
+    `${value || ''}`.toLowerCase().indexOf(`${needle}`.toLowerCase()) !== -1
+};
+
+/**
+ * Compile an OData $filter into a predicate.
+ * Supports comparisons, and/or/not, startswith and substringof.
+ */
+export function parseFilter(filter: string): (entity: any) => boolean {
+  type Getter = (entity: any) => any;
+  const tokens = tokenizeFilter(filter);
+  let pos = 0;
+  const isWord = (word: string) =>
+    tokens[pos] &&
+    tokens[pos].type === 'name' &&
+    tokens[pos].value.toLowerCase() === word;
+  const expect = (type: IFilterToken['type']) => {
+    const token = tokens[pos++];
+    if (!token || token.type !== type)
+      throw new Error(`Could not parse $filter: ${filter}`);
+    return token;
+  };
+  const parseValue = (): Getter => {
+    const token = tokens[pos++];
+    if (!token) throw new Error(`Could not parse $filter: ${filter}`);
+    if (token.type === '(') {
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'value') return () => token.value;
+    if (token.type !== 'name')
+      throw new Error(`Could not parse $filter: ${filter}`);
+    const word = token.value.toLowerCase();
+    if (word === 'true' || word === 'false') return () => word === 'true';
+    if (word === 'null') return () => null;
+    if (tokens[pos] && tokens[pos].type === '(') {
+      pos++;
+      const args = [parseOr()];
+      while (tokens[pos] && tokens[pos].type === ',') {
+        pos++;
+        args.push(parseOr());
+      }
+      expect(')');
+      const fn = functions[word];
+      if (!fn) throw new Error(`Unsupported function in $filter: ${word}`);
+      return entity => fn(...args.map(arg => arg(entity)));
+    }
+    return entity => getPath(entity, token.value);
+  };
+  const parseComparison = (): Getter => {
+    const left = parseValue();
+    const token = tokens[pos];
+    const compare =
+      token && token.type === 'name' && comparisons[token.value.toLowerCase()];
+    if (!compare) return left;
+    pos++;
+    const right = parseValue();
+    return entity => compare(left(entity), right(entity));
+  };
+  const parseNot = (): Getter => {
+    if (!isWord('not')) return parseComparison();
+    pos++;
+    const inner = parseNot();
+    return entity => !inner(entity);
+  };
+  const parseAnd = (): Getter => {
+    let left = parseNot();
+    while (isWord('and')) {
+      pos++;
+      const [a, b] = [left, parseNot()];
+      left = entity => !!a(entity) && !!b(entity);
+    }
+    return left;
+  };
+  const parseOr = (): Getter => {
+    let left = parseAnd();
+    while (isWord('or')) {
+      pos++;
+      const [a, b] = [left, parseAnd()];
+      left = entity => !!a(entity) || !!b(entity);
+    }
+    return left;
+  };
+  const predicate = parseOr();
+  if (pos < tokens.length)
+    throw new Error(`Could not parse $filter: ${filter}`);
+  return entity => !!predicate(entity);
+}
+
+/**
+ * Keep the selected properties of an entity, and its odata metadata
+ */
+function selectProperties(entity: any, select?: string) {
+  if (!select) return entity;
+  const names = select
+    .split(',')
+    .map(name => name.trim().split('/')[0].toLowerCase());
+  if (names.indexOf('*') !== -1) return entity;
+  return Object.keys(entity)
+    .filter(
+      key => key.startsWith('odata.') || names.indexOf(key.toLowerCase()) !== -1
+    )
+    .reduce((prev, key) => ({ ...prev, [key]: entity[key] }), {});
+}
+
+function orderBy(entities: any[], order?: string) {
+  if (!order) return entities;
+  const keys = order.split(',').map(part => {
+    const [path, direction] = part.trim().split(/\s+/);
+    return { path, sign: /^desc$/i.test(direction || '') ? -1 : 1 };
+  });
+  return entities
+    .slice()
+    .sort((a, b) =>
+      keys.reduce(
+        (prev, { path, sign }) =>
+          prev || sign * compareValues(getPath(a, path), getPath(b, path)),
+        0
+      )
+    );
+}
+
+/**
+ * Parse the parts of a $batch request body
+ */
+function parseBatch(body: string) {
+  const requests: {
+    method: string;
+    url: string;
+    headers: Headers;
+    body: string;
+  }[] = [];
+  const lines = body.split(/\r?\n/);
+  for (let idx = 0; idx < lines.length; idx++) {
+    const match = /^(GET|POST|PUT|PATCH|MERGE|DELETE) (.+) HTTP\/1\.1$/i.exec(
+      lines[idx]
+    );
+    if (!match) continue;
+    const headers = new Headers();
+    for (idx++; idx < lines.length && lines[idx].trim(); idx++) {
+      const split = lines[idx].indexOf(':');
+      headers.set(
+        lines[idx].slice(0, split).trim(),
+        lines[idx].slice(split + 1).trim()
+      );
+    }
+    const content: string[] = [];
+    for (idx++; idx < lines.length && !lines[idx].startsWith('--'); idx++)
+      content.push(lines[idx]);
+    idx--;
+    requests.push({
+      method: match[1].toUpperCase(),
+      url: match[2],
+      headers,
+      body: content.join('\n').trim()
+    });
+  }
+  return requests;
+}
+
+/**
+ * In-memory SharePoint for running fetchers offline.
+ * Answers REST requests for webs, lists, items, fields, content types and
+ * storage entities, including $batch requests and paging, and for the files
+ * and folders of libraries, including uploads in upload sessions.
+ *
+ * @example
+ * const emulator = new SPEmulator([
+ *   {
+ *     url: 'https://contoso.sharepoint.com/sites/dev',
+ *     lists: [{ Title: 'Tasks', items: [{ Title: 'First' }] }]
+ *   }
+ * ]);
+ * Fetcher.initialize(emulator.createContext(), { transport: emulator.transport });
+ */
+export class SPEmulator {
+  public webs: IEmulatorWeb[];
+
+  /**
+   * Every request received, in order
+   */
+  public requests: IRequestInfo[];
+  private uploads: { [id: string]: IEmulatorUpload };
+
+  constructor(webs: IEmulatorWeb[] = []) {
+    this.webs = [];
+    this.requests = [];
+    this.uploads = {};
+    webs.forEach(web => this.addWeb(web));
+  }
+
+  /**
+   * Send a request to the emulator. Pass this as the fetcher's transport.
+   */
+  public transport: Transport = (url: string, init: RequestInit = {}) => {
+    const method = (init.method || 'GET').toUpperCase();
+    const body = typeof init.body === 'string' ? init.body : undefined;
+    this.requests.push({ url, method, body });
+    return Promise.resolve().then(() => {
+      const response = this.handle({
+        method,
+        url,
+        headers: new Headers(init.headers),
+        body,
+        size: getBodySize(init.body)
+      });
+      const text =
+        response.body === undefined || typeof response.body === 'string'
+          ? response.body
+          : JSON.stringify(response.body);
+      return new Response(response.status === 204 ? null : text, {
+        status: response.status,
+        statusText: statusTexts[response.status] || '',
+        headers: {
+          'content-type': 'application/json;odata=minimalmetadata',
+          ...response.headers
+        }
+      });
+    });
+  };
+
+  /**
+   * Build a fake context for the first web, or the given site
+   */
+  public createContext(options?: Partial<ITestContextOptions>) {
+    return createTestContext(this.transport, {
+      siteUrl: this.webs.length ? this.webs[0].url : undefined,
+      ...options
+    });
+  }
+
+  public addWeb(web: IEmulatorWeb) {
+    const added: IEmulatorWeb = {
+      Title: '',
+      Description: '',
+      properties: {},
+      storageEntities: {},
+      ...web,
+      url: web.url.replace(/\/+$/, ''),
+      Id: web.Id || createGuid(),
+      fields: (web.fields || []).map(field => this.createField(field)),
+      contentTypes: (web.contentTypes || []).map(contentType => ({
+        ...contentType
+      })),
+      lists: []
+    };
+    this.webs.push(added);
+    (web.lists || []).forEach(list => this.addList(added.url, list));
+    return added;
+  }
+
+  public getWeb(url: string) {
+    return this.webs.find(test => trimUrl(test.url) === trimUrl(url));
+  }
+
+  public addList(webUrl: string, list: IEmulatorList) {
+    const web = this.getWeb(webUrl);
+    if (!web) throw new Error(`No emulated web at ${webUrl}`);
+    const library = list.BaseTemplate === 101;
+    const defaults: IEmulatorField[] = [
+      { InternalName: 'ID', TypeAsString: 'Counter' },
+      { InternalName: 'Title', TypeAsString: 'Text' },
+      { InternalName: 'ContentTypeId', TypeAsString: 'ContentTypeId' }
+    ].concat(
+      library
+        ? [
+            { InternalName: 'FileLeafRef', TypeAsString: 'File' },
+            { InternalName: 'FileRef', TypeAsString: 'Lookup' },
+            { InternalName: 'FSObjType', TypeAsString: 'Lookup' }
+          ]
+        : []
+    );
+    const added: IEmulatorList = {
+      BaseTemplate: 100,
+      ...list,
+      Id: list.Id || createGuid(),
+      url: (
+        list.url || `${web.url.replace(/^https?:\/\/[^/]+/, '')}/${list.Title}`
+      ).replace(/\/+$/, ''),
+      fields: defaults
+        .filter(
+          field =>
+            !(list.fields || []).some(
+              test => test.InternalName === field.InternalName
+            )
+        )
+        .concat(list.fields || [])
+        .map(field => this.createField(field)),
+      contentTypes: (
+        list.contentTypes || [
+          library
+            ? { StringId: '0x0101', Name: 'Document' }
+            : { StringId: '0x01', Name: 'Item' }
+        ]
+      ).map(contentType => ({ ...contentType })),
+      items: []
+    };
+    web.lists.push(added);
+    (list.items || []).forEach(item => this.addItem(added, item));
+    return added;
+  }
+
+  public getList(webUrl: string, title: string) {
+    const web = this.getWeb(webUrl);
+    return (
+      web &&
+      web.lists.find(
+        test =>
+          test.Title.toLowerCase() === `${title}`.toLowerCase() ||
+          test.Id.toLowerCase() === `${title}`.toLowerCase()
+      )
+    );
+  }
+
+  public addItem(list: IEmulatorList, item: { [key: string]: any }) {
+    const Id =
+      item.Id ||
+      item.ID ||
+      list.items.reduce((prev, test) => Math.max(prev, test.Id), 0) + 1;
+    const now = new Date().toISOString();
+    const added = {
+      ContentTypeId: list.contentTypes[0].StringId,
+      Created: now,
+      Modified: now,
+      ...(list.BaseTemplate === 101 ? { FSObjType: 0 } : {}),
+      ...item,
+      Id,
+      ID: Id
+    };
+    list.items.push(added);
+    return added;
+  }
+
+  private createField(field: IEmulatorField): IEmulatorField {
+    const type = field.TypeAsString || 'Text';
+    return {
+      'odata.type': fieldTypes[type] || 'SP.Field',
+      Id: createGuid(),
+      Title: field.InternalName,
+      StaticName: field.InternalName,
+      Description: '',
+      Hidden: false,
+      ReadOnlyField: false,
+      Required: false,
+      ...field,
+      TypeAsString: type
+    };
+  }
+
+  private handle(request: IEmulatorRequest): IEmulatorResponse {
+    const [base, rest] = request.url.split('?')[0].split(/\/_api\//i);
+    const web = this.getWeb(base);
+    if (!web || rest === undefined)
+      return createError(404, `No emulated web at ${base}`);
+    const method =
+      request.method === 'POST' && request.headers.has('X-HTTP-Method')
+        ? request.headers.get('X-HTTP-Method').toUpperCase()
+        : request.method;
+    let path = rest;
+    try {
+      path = decodeURIComponent(rest);
+    } catch (error) {}
+    if (/^contextinfo$/i.test(path))
+      return {
+        status: 200,
+        body: {
+          d: {
+            GetContextWebInformation: {
+              FormDigestValue: `0x${createGuid()},${new Date().toUTCString()}`,
+              FormDigestTimeoutSeconds: 1800,
+              WebFullUrl: web.url
+            }
+          }
+        }
+      };
+    if (/^\$batch$/i.test(path)) return this.handleBatch(request);
+    try {
+      return this.handleRest(web, method, path, request);
+    } catch (error) {
+      return createError(400, error.message);
+    }
+  }
+
+  private handleBatch(request: IEmulatorRequest): IEmulatorResponse {
+    const boundary = `batchresponse_${createGuid()}`;
+    const parts = parseBatch(request.body || '').map(part => {
+      const response = this.handle(part);
+      const status = response.status;
+      return [
+        `--${boundary}`,
+        'Content-Type: application/http',
+        'Content-Transfer-Encoding: binary',
+        '',
+        `HTTP/1.1 ${status} ${statusTexts[status] || ''}`,
+        'CONTENT-TYPE: application/json;odata=minimalmetadata',
+        '',
+        status === 204 ? '' : JSON.stringify(response.body),
+        ''
+      ].join('\n');
+    });
+    return {
+      status: 200,
+      body: `${parts.join('')}--${boundary}--\n`,
+      headers: { 'content-type': `multipart/mixed; boundary=${boundary}` }
+    };
+  }
+
+  private handleRest(
+    web: IEmulatorWeb,
+    method: string,
+    path: string,
+    request: IEmulatorRequest
+  ): IEmulatorResponse {
+    let node: EmulatorNode = { kind: 'web' };
+    const segments = splitPath(path);
+    for (let idx = 0; idx < segments.length; idx++) {
+      node = this.getChild(web, node, segments[idx], idx === 0);
+      if (!node)
+        return createError(
+          404,
+          `Could not find ${segments
+            .slice(0, idx + 1)
+            .map(({ name, arg }) =>
+              arg === undefined ? name : `${name}(${arg})`
+            )
+            .join('/')}`
+        );
+    }
+    const query = parseQuery(request.url);
+    const body = request.body ? JSON.parse(request.body) : {};
+    delete body.__metadata;
+
+    if (method === 'GET') return this.read(web, node, query, request.url);
+    if (method === 'POST' && node.kind === 'call')
+      return this.call(web, node, request.size || 0);
+    if (method === 'DELETE' && node.kind === 'path') {
+      const found = this.findPath(web, node.path);
+      if (!found) return createError(404, `File Not Found: ${node.path}`);
+      const removed = found.list.items.filter(item =>
+        `${trimUrl(item.FileRef)}/`.startsWith(
+          `${trimUrl(found.item.FileRef)}/`
+        )
+      );
+      found.list.items = found.list.items.filter(
+        item => removed.indexOf(item) === -1
+      );
+      return { status: 204 };
+    }
+    if (method === 'POST' && node.kind === 'items')
+      return {
+        status: 201,
+        body: this.toEntity(web, node, this.addItem(node.list, body), true)
+      };
+    if (method === 'POST' && node.kind === 'lists')
+      return {
+        status: 201,
+        body: this.toEntity(
+          web,
+          { kind: 'list', list: this.addList(web.url, body) },
+          undefined,
+          true
+        )
+      };
+    if ((method === 'MERGE' || method === 'PATCH') && node.kind === 'item') {
+      Object.keys(body).forEach(key => ((node as any).item[key] = body[key]));
+      node.item.Modified = new Date().toISOString();
+      return { status: 204 };
+    }
+    if (method === 'DELETE' && node.kind === 'item') {
+      node.list.items.splice(node.list.items.indexOf(node.item), 1);
+      return { status: 204 };
+    }
+    if (method === 'DELETE' && node.kind === 'list') {
+      web.lists.splice(web.lists.indexOf(node.list), 1);
+      return { status: 204 };
+    }
+    return createError(501, `${method} ${path} is not emulated`);
+  }
+
+  private getChild(
+    web: IEmulatorWeb,
+    node: EmulatorNode,
+    {
+      name,
+      arg,
+      params
+    }: { name: string; arg?: string; params: { [key: string]: string } },
+    first: boolean
+  ): EmulatorNode {
+    const findList = (test: string) => {
+      const list = this.getList(web.url, test);
+      return list && ({ kind: 'list', list } as EmulatorNode);
+    };
+    const findField = (fields: IEmulatorField[], test: string) => {
+      const field = fields.find(
+        f =>
+          `${f.Id}`.toLowerCase() === `${test}`.toLowerCase() ||
+          f.InternalName === test ||
+          `${f.Title}`.toLowerCase() === `${test}`.toLowerCase()
+      );
+      return field && ({ kind: 'field', field } as EmulatorNode);
+    };
+    const findItem = (test: string) => {
+      const item = this.findPath(web, test);
+      return item ? ({ kind: 'item', ...item } as EmulatorNode) : undefined;
+    };
+    const list = 'list' in node ? node.list : undefined;
+    switch (node.kind) {
+      case 'web':
+        if (first && name === 'web') return node;
+        if (name === 'lists')
+          return arg === undefined ? { kind: 'lists' } : findList(arg);
+        if (name === 'getlist')
+          return web.lists
+            .filter(test =>
+              (test.items[0] ? `${test.items[0].FileRef || ''}` : '')
+                .toLowerCase()
+                .startsWith(`${arg}`.toLowerCase())
+            )
+            .map(found => ({ kind: 'list', list: found } as EmulatorNode))[0];
+        if (name === 'defaultdocumentlibrary') {
+          const library = web.lists.find(test => test.BaseTemplate === 101);
+          return library && { kind: 'list', list: library };
+        }
+        if (name === 'fields')
+          return arg === undefined
+            ? { kind: 'fields', fields: web.fields }
+            : findField(web.fields, arg);
+        if (name === 'contenttypes')
+          return arg === undefined
+            ? { kind: 'contentTypes' }
+            : this.findContentType(web.contentTypes, arg);
+        if (name === 'getstorageentity')
+          return { kind: 'storageEntity', key: arg };
+        if (
+          /^get(file|folder)byserverrelative(path|url)$/.test(name) &&
+          arg !== undefined
+        )
+          return { kind: 'path', path: arg };
+        if (name === 'folders' && arg === undefined) return { kind: 'folders' };
+        return undefined;
+      case 'lists':
+        if (name === 'getbytitle' || name === 'getbyid') return findList(arg);
+        return undefined;
+      case 'list':
+        if (name === 'items')
+          return arg === undefined
+            ? { kind: 'items', list }
+            : this.findItem(list, arg);
+        if (name === 'fields')
+          return arg === undefined
+            ? { kind: 'fields', list, fields: list.fields }
+            : findField(list.fields, arg);
+        if (name === 'contenttypes')
+          return arg === undefined
+            ? { kind: 'contentTypes', list }
+            : this.findContentType(list.contentTypes, arg, list);
+        return undefined;
+      case 'items':
+        if (name === 'getbyid') return this.findItem(list, arg);
+        return undefined;
+      case 'fields':
+        if (
+          name === 'getbyid' ||
+          name === 'getbytitle' ||
+          name === 'getbyinternalnameortitle'
+        )
+          return findField(node.fields, arg);
+        return undefined;
+      case 'contentTypes':
+        if (name === 'getbyid')
+          return this.findContentType(
+            list ? list.contentTypes : web.contentTypes,
+            arg,
+            list
+          );
+        return undefined;
+      case 'contentType':
+        if (name === 'fields') {
+          const fields = list ? list.fields : web.fields;
+          const names = node.contentType.fields;
+          return {
+            kind: 'fields',
+            list,
+            fields: names
+              ? fields.filter(field => names.indexOf(field.InternalName) !== -1)
+              : fields
+          };
+        }
+        return undefined;
+      case 'path':
+        if (name === 'listitemallfields') return findItem(node.path);
+        if (name === 'files' && arg === undefined)
+          return { kind: 'files', path: node.path };
+        if (/^(start|continue|finish|cancel)upload$/.test(name))
+          return { kind: 'call', name, path: node.path, params };
+        return undefined;
+      case 'folders':
+        if (name === 'addusingpath')
+          return {
+            kind: 'call',
+            name: 'addfolder',
+            path: params.decodedurl,
+            params
+          };
+        return undefined;
+      case 'files':
+        if (name === 'addusingpath')
+          return {
+            kind: 'call',
+            name: 'addfile',
+            path: `${node.path.replace(/\/+$/, '')}/${params.decodedurl}`,
+            params
+          };
+        return undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Find the file or folder at a server relative path
+   */
+  private findPath(web: IEmulatorWeb, path: string) {
+    const url = trimUrl(`/${path}`.replace(/^\/+/, '/'));
+    return web.lists
+      .reduce(
+        (prev, list) => prev.concat(list.items.map(item => ({ list, item }))),
+        [] as { list: IEmulatorList; item: { [key: string]: any } }[]
+      )
+      .find(({ item }) => trimUrl(item.FileRef || '') === url);
+  }
+
+  /**
+   * Get the root folder of the library at a server relative path. Root
+   * folders have no item, unlike the folders in them.
+   */
+  private getRootFolder(web: IEmulatorWeb, path: string) {
+    const url = trimUrl(`/${path}`.replace(/^\/+/, '/'));
+    const list = web.lists.find(
+      test => test.BaseTemplate === 101 && trimUrl(test.url) === url
+    );
+    return list
+      ? {
+          FileRef: list.url,
+          FileLeafRef: list.url.split('/').pop(),
+          FSObjType: 1
+        }
+      : undefined;
+  }
+
+  /**
+   * Find the library whose root folder contains a server relative path
+   */
+  private getLibrary(web: IEmulatorWeb, path: string) {
+    return web.lists.find(
+      list =>
+        list.BaseTemplate === 101 &&
+        trimUrl(`/${path}`.replace(/^\/+/, '/')).startsWith(
+          `${trimUrl(list.url)}/`
+        )
+    );
+  }
+
+  /**
+   * Answer a POST to a function of the files or folders of a library:
+   * adding them, and the requests of upload sessions
+   *
+   * @param size - Size of the request body, the content of a file or chunk
+   */
+  private call(
+    web: IEmulatorWeb,
+    node: Extract<EmulatorNode, { kind: 'call' }>,
+    size: number
+  ): IEmulatorResponse {
+    const path = `/${node.path}`.replace(/^\/+/, '/').replace(/\/+$/, '');
+    const found = this.findPath(web, path);
+    const id = node.params.uploadid;
+    const session = this.uploads[id];
+    const write = (item: { [key: string]: any }, length: number) => {
+      item.File_x0020_Size = length;
+      item.Modified = new Date().toISOString();
+      return { status: 200, body: this.toFile(web, path, item) };
+    };
+    switch (node.name) {
+      case 'addfile':
+      case 'addfolder': {
+        const folder = node.name === 'addfolder';
+        const existing = found ? found.item : this.getRootFolder(web, path);
+        if (existing && folder)
+          return { status: 200, body: this.toFile(web, path, existing) };
+        if (found && !/^true$/i.test(node.params.overwrite || ''))
+          return createError(400, `A file with URL '${path}' already exists.`);
+        if (found) return write(found.item, size);
+        const library = this.getLibrary(web, path);
+        if (!library) return createError(404, `No library at ${path}`);
+        const item = this.addItem(library, {
+          FileRef: path,
+          FileLeafRef: path.split('/').pop(),
+          FSObjType: folder ? 1 : 0
+        });
+        return folder
+          ? { status: 200, body: this.toFile(web, path, item) }
+          : write(item, size);
+      }
+      case 'startupload':
+        if (!found) return createError(404, `File Not Found: ${path}`);
+        this.uploads[id] = { path, offset: size };
+        return { status: 200, body: { value: `${size}` } };
+      case 'continueupload':
+      case 'finishupload':
+        if (!found || !session || trimUrl(session.path) !== trimUrl(path))
+          return createError(404, `No upload session ${id} for ${path}`);
+        if (Number(node.params.fileoffset) !== session.offset)
+          return createError(
+            400,
+            `Expected a chunk at offset ${session.offset} of ${path}`
+          );
+        session.offset += size;
+        if (node.name === 'continueupload')
+          return { status: 200, body: { value: `${session.offset}` } };
+        delete this.uploads[id];
+        return write(found.item, session.offset);
+      default:
+        delete this.uploads[id];
+        return { status: 204 };
+    }
+  }
+
+  private findItem(list: IEmulatorList, id: string): EmulatorNode {
+    const item = list.items.find(test => `${test.Id}` === `${id}`);
+    return item && { kind: 'item', list, item };
+  }
+
+  private findContentType(
+    contentTypes: IEmulatorContentType[],
+    id: string,
+    list?: IEmulatorList
+  ): EmulatorNode {
+    const contentType = contentTypes.find(
+      test => test.StringId.toLowerCase() === `${id}`.toLowerCase()
+    );
+    return contentType && { kind: 'contentType', list, contentType };
+  }
+
+  /**
+   * Answer a GET-request for a node, applying the query options
+   */
+  private read(
+    web: IEmulatorWeb,
+    node: EmulatorNode,
+    query: { [key: string]: string },
+    url: string
+  ): IEmulatorResponse {
+    const collection =
+      node.kind === 'lists'
+        ? web.lists
+        : node.kind === 'items'
+        ? node.list.items
+        : node.kind === 'fields'
+        ? node.fields
+        : node.kind === 'contentTypes'
+        ? node.list
+          ? node.list.contentTypes
+          : web.contentTypes
+        : undefined;
+    if (!collection) {
+      if (node.kind === 'storageEntity') {
+        const value = web.storageEntities[node.key];
+        return {
+          status: 200,
+          body:
+            value === undefined
+              ? { 'odata.null': true }
+              : { Value: value, Comment: '', Description: '' }
+        };
+      }
+      if (node.kind === 'path') {
+        const found = this.findPath(web, node.path);
+        return {
+          status: 200,
+          body: selectProperties(
+            this.toFile(
+              web,
+              node.path,
+              found ? found.item : this.getRootFolder(web, node.path)
+            ),
+            query.$select
+          )
+        };
+      }
+      return {
+        status: 200,
+        body: selectProperties(
+          this.toEntity(web, node, undefined, true),
+          query.$select
+        )
+      };
+    }
+    const entities = collection.map(entity => this.toEntity(web, node, entity));
+    const filtered = query.$filter
+      ? entities.filter(parseFilter(query.$filter))
+      : entities;
+    const sorted = orderBy(filtered, query.$orderby);
+    // Pages continue after the last item of the previous page, in sort order
+    const token = /p_ID=(\d+)/.exec(query.$skiptoken || '');
+    const last = token
+      ? sorted.findIndex(entity => entity.Id === parseInt(token[1], 10))
+      : -1;
+    const remaining = token
+      ? last === -1
+        ? sorted.filter(entity => entity.Id > parseInt(token[1], 10))
+        : sorted.slice(last + 1)
+      : sorted.slice(parseInt(query.$skip || '0', 10));
+    const top = parseInt(
+      query.$top || (node.kind === 'items' ? '100' : `${remaining.length}`),
+      10
+    );
+    const page = remaining.slice(0, top);
+    const body: any = {
+      value: page.map(entity => selectProperties(entity, query.$select))
+    };
+    if (node.kind === 'items' && remaining.length > top)
+      body['odata.nextLink'] = `${url
+        .replace(/([?&])\$skiptoken=[^&]*&?/i, '$1')
+        .replace(/[?&]$/, '')}${
+        url.indexOf('?') === -1 ? '?' : '&'
+      }$skiptoken=${encodeURIComponent(
+        `Paged=TRUE&p_ID=${page[page.length - 1].Id}`
+      )}`;
+    return { status: 200, body };
+  }
+
+  /**
+   * Serialize a file or folder, or a path without either
+   */
+  private toFile(
+    web: IEmulatorWeb,
+    path: string,
+    item?: { [key: string]: any }
+  ) {
+    if (!item)
+      return {
+        Exists: false,
+        Name: path.split('/').slice(-1)[0],
+        ServerRelativeUrl: path
+      };
+    const folder = `${item.FSObjType}` === '1';
+    const link = `Web/Get${
+      folder ? 'Folder' : 'File'
+    }ByServerRelativePath(decodedurl='${item.FileRef.replace(/'/g, "''")}')`;
+    return {
+      'odata.type': folder ? 'SP.Folder' : 'SP.File',
+      'odata.id': `${web.url}/_api/${link}`,
+      'odata.editLink': link,
+      Exists: true,
+      Name: item.FileLeafRef,
+      ServerRelativeUrl: item.FileRef,
+      ...(folder
+        ? {}
+        : {
+            Length: `${item.File_x0020_Size || 0}`,
+            TimeLastModified: item.Modified
+          })
+    };
+  }
+
+  /**
+   * Serialize an entity as SharePoint would, with minimal metadata
+   *
+   * @param entity - Member of the collection node, if any
+   * @param single - Add the metadata url of a single entity
+   */
+  private toEntity(
+    web: IEmulatorWeb,
+    node: EmulatorNode,
+    entity?: any,
+    single?: boolean
+  ): any {
+    const metadata = (type: string) =>
+      single ? { 'odata.metadata': `${web.url}/_api/$metadata#${type}` } : {};
+    const listLink = (list: IEmulatorList) => `Web/Lists(guid'${list.Id}')`;
+    const itemType = (list: IEmulatorList) =>
+      `SP.Data.${list.Title.replace(/\W/g, '')}ListItem`;
+    switch (node.kind) {
+      case 'web':
+        return {
+          ...metadata('SP.ApiData.Webs/@Element'),
+          'odata.type': 'SP.Web',
+          'odata.id': `${web.url}/_api/Web`,
+          'odata.editLink': 'Web',
+          Id: web.Id,
+          Title: web.Title,
+          Description: web.Description,
+          Url: web.url,
+          ServerRelativeUrl: web.url.replace(/^https?:\/\/[^/]+/, '') || '/',
+          AllProperties: { ...web.properties }
+        };
+      case 'lists':
+      case 'list': {
+        const list: IEmulatorList = entity || (node as any).list;
+        return {
+          ...metadata('SP.ApiData.Lists/@Element'),
+          'odata.type': 'SP.List',
+          'odata.id': `${web.url}/_api/${listLink(list)}`,
+          'odata.editLink': listLink(list),
+          Id: list.Id,
+          Title: list.Title,
+          BaseTemplate: list.BaseTemplate,
+          BaseType: list.BaseTemplate === 101 ? 1 : 0,
+          Hidden: false,
+          ItemCount: list.items.length,
+          ListItemEntityTypeFullName: itemType(list)
+        };
+      }
+      case 'items':
+      case 'item': {
+        const list = node.list;
+        const item = entity || (node as any).item;
+        return {
+          ...metadata(
+            `SP.ListData.${list.Title.replace(/\W/g, '')}ListItems/@Element`
+          ),
+          'odata.type': itemType(list),
+          'odata.id': `${web.url}/_api/${listLink(list)}/Items(${item.Id})`,
+          'odata.editLink': `${listLink(list)}/Items(${item.Id})`,
+          ...item
+        };
+      }
+      case 'fields':
+      case 'field':
+        return { ...(entity || (node as any).field) };
+      case 'contentTypes':
+      case 'contentType': {
+        const contentType: IEmulatorContentType =
+          entity || (node as any).contentType;
+        return {
+          'odata.type': 'SP.ContentType',
+          Id: { StringValue: contentType.StringId },
+          StringId: contentType.StringId,
+          Name: contentType.Name || contentType.StringId
+        };
+      }
+      default:
+        return entity;
+    }
+  }
+}
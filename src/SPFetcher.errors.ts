@@ -0,0 +1,170 @@
+import { IResponse, ISPFetcherErrorDetails } from './interfaces';
+import { getRetryAfter } from './SPFetcher.retry';
+
+/**
+ * Error thrown by the fetcher for any failed request
+ */
+export class SPFetcherError extends Error {
+  public readonly status: number;
+  public readonly code: string;
+  public readonly correlationId: string;
+  public readonly url: string;
+  public readonly site: string;
+  public readonly cause: any;
+
+  constructor(message: string, details: ISPFetcherErrorDetails = {}) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.code = details.code;
+    this.correlationId = details.correlationId;
+    this.url = details.url;
+    this.site = details.site;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * The requested resource does not exist (404)
+ */
+export class SPNotFoundError extends SPFetcherError {}
+
+/**
+ * The current user may not access the requested resource (401/403)
+ */
+export class SPAccessDeniedError extends SPFetcherError {}
+
+/**
+ * SharePoint throttled the request, and retries were spent (429/503)
+ */
+export class SPThrottledError extends SPFetcherError {
+  /**
+   * Delay requested by SharePoint before trying again (ms)
+   */
+  public retryAfter: number;
+}
+
+/**
+ * The request was cancelled through its AbortSignal
+ */
+export class SPAbortError extends SPFetcherError {}
+
+/**
+ * Create an error of the class matching its status and code
+ */
+export function createError(
+  message: string,
+  details: ISPFetcherErrorDetails = {}
+): SPFetcherError {
+  const code = details.code || '';
+  return details.status === 404 || /FileNotFound|NotFound/i.test(code)
+    ? new SPNotFoundError(message, details)
+    : details.status === 401 ||
+      details.status === 403 ||
+      /UnauthorizedAccess|AccessDenied/i.test(code)
+    ? new SPAccessDeniedError(message, details)
+    : details.status === 429 || details.status === 503
+    ? new SPThrottledError(message, details)
+    : new SPFetcherError(message, details);
+}
+
+/**
+ * Read the SharePoint error from a response body.
+ * Understands REST errors (verbose and nometadata) and ProcessQuery ErrorInfo.
+ */
+export function parseErrorBody(
+  body: any
+): { code?: string; message?: string; correlationId?: string } {
+  let json = body;
+  if (typeof body === 'string') {
+    try {
+      json = JSON.parse(body);
+    } catch (error) {
+      return {};
+    }
+  }
+  const info = json instanceof Array && json[0] && json[0].ErrorInfo;
+  if (info)
+    return {
+      code: info.ErrorTypeName || `${info.ErrorCode}`,
+      message: info.ErrorMessage,
+      correlationId: info.TraceCorrelationId
+    };
+  const error = json && (json.error || json['odata.error']);
+  if (!error) return {};
+  return {
+    code: error.code,
+    message:
+      error.message && typeof error.message === 'object'
+        ? error.message.value
+        : error.message
+  };
+}
+
+/**
+ * Create an error from a failed response
+ */
+export function errorFromResponse(
+  response: IResponse & { url?: string; text(): Promise<string> },
+  details: ISPFetcherErrorDetails = {}
+): Promise<SPFetcherError> {
+  return response
+    .text()
+    .catch((): string => undefined)
+    .then(text => {
+      const parsed = parseErrorBody(text);
+      const error = createError(
+        parsed.message ||
+          `Request failed with status [${response.status}] ${response.statusText}`,
+        {
+          ...details,
+          status: response.status,
+          code: parsed.code,
+          correlationId:
+            parsed.correlationId ||
+            (response.headers &&
+              (response.headers.get('SPRequestGuid') ||
+                response.headers.get('request-id'))) ||
+            undefined,
+          url: details.url || response.url
+        }
+      );
+      if (error instanceof SPThrottledError)
+        error.retryAfter = getRetryAfter(response);
+      return error;
+    });
+}
+
+/**
+ * Turn any failure into an SPFetcherError.
+ * Errors from PnP carry the failed response, which is parsed for details.
+ */
+export function toFetcherError(
+  error: any,
+  details: ISPFetcherErrorDetails = {}
+): Promise<SPFetcherError> {
+  if (error instanceof SPFetcherError) return Promise.resolve(error);
+  if (error && error.name === 'AbortError')
+    return Promise.resolve(
+      new SPAbortError(error.message || 'The request was aborted.', {
+        ...details,
+        code: 'AbortError',
+        cause: error
+      })
+    );
+  if (error && error.isHttpRequestError && error.response)
+    return errorFromResponse(error.response, { ...details, cause: error });
+  return Promise.resolve(
+    createError((error && error.message) || `${error}`, {
+      ...details,
+      status:
+        details.status === undefined &&
+        error &&
+        typeof error.status === 'number'
+          ? error.status
+          : details.status,
+      cause: error
+    })
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * Minimal typed event emitter
+ *
+ * @example
+ * const emitter = new EventEmitter<{ done: { id: number } }>();
+ * const off = emitter.on('done', ({ id }) => console.log(id));
+ */
+export class EventEmitter<E> {
+  private listeners: { [K in keyof E]?: ((payload: E[K]) => void)[] };
+
+  constructor() {
+    this.listeners = {};
+  }
+
+  /**
+   * Subscribe to an event
+   *
+   * @returns A function that removes the listener
+   */
+  public on<K extends keyof E>(event: K, listener: (payload: E[K]) => void) {
+    this.listeners[event] = (this.listeners[event] || []).concat(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  public once<K extends keyof E>(event: K, listener: (payload: E[K]) => void) {
+    const off = this.on(event, payload => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  public off<K extends keyof E>(event: K, listener: (payload: E[K]) => void) {
+    this.listeners[event] = (this.listeners[event] || []).filter(
+      test => test !== listener
+    );
+  }
+
+  /**
+   * Call every listener of an event. Errors thrown by listeners are ignored, so
+   * that they never break a request.
+   */
+  public emit<K extends keyof E>(event: K, payload: E[K]) {
+    (this.listeners[event] || []).forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        // Ignore errors in listeners
+      }
+    });
+  }
+}
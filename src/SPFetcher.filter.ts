@@ -0,0 +1,222 @@
+/**
+ * Value type of a field, as typed by the interfaces from getProjectTypings.
+ * Lookup, user and taxonomy fields are compared by their display value.
+ */
+export type SPFilterValue<F> = F extends {
+  'odata.type': 'SP.FieldNumber' | 'SP.FieldCurrency';
+}
+  ? number
+  : F extends { 'odata.type': 'SP.FieldDateTime' }
+  ? Date
+  : F extends { 'odata.type': string }
+  ? F extends { 'odata.type': 'SP.Field' }
+    ? string | number | boolean | Date
+    : string
+  : string | number | boolean | Date;
+
+/**
+ * Field names of an item interface
+ */
+export type SPFilterField<I> = Extract<keyof I, string>;
+
+/**
+ * Anything accepted as a filter by the fetcher
+ */
+export type SPFilterInput = string | SPFilter | (string | SPFilter)[];
+
+/**
+ * Quote a string for use in an OData filter. Single quotes are doubled.
+ * PnP encodes the filter when it builds the url.
+ */
+export function quote(value: string) {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Quote a string for use in a url that is built by hand, e.g. as a
+ * parameter of getFileByServerRelativePath. Single quotes are doubled and
+ * characters with a meaning in urls are encoded.
+ */
+export function quoteUrl(value: string) {
+  return `'${encodeURIComponent(value.replace(/'/g, "''"))}'`;
+}
+
+/**
+ * Format a value for use in an OData filter
+ */
+export function formatValue(value: string | number | boolean | Date): string {
+  return value === null || value === undefined
+    ? 'null'
+    : value instanceof Date
+    ? `datetime${quote(value.toISOString())}`
+    : typeof value === 'boolean'
+    ? value
+      ? '1'
+      : '0'
+    : typeof value === 'number'
+    ? `${value}`
+    : quote(value);
+}
+
+/**
+ * A filter expression
+ */
+export class SPFilter<I = any> {
+  /**
+   * Lookup fields that must be expanded for the filter to work
+   */
+  public readonly expand: string[];
+  private readonly expression: string;
+
+  constructor(expression: string, expand: string[] = []) {
+    this.expression = expression;
+    this.expand = expand;
+  }
+
+  /**
+   * Combine filters. Strings are used as they are.
+   */
+  public static join(
+    operator: 'and' | 'or',
+    filters: (string | SPFilter)[]
+  ): SPFilter {
+    const parts = filters.filter(test => test && `${test}`.length);
+    return new SPFilter(
+      parts.length > 1
+        ? parts.map(part => `(${part})`).join(` ${operator} `)
+        : parts.map(part => `${part}`).join(''),
+      parts.reduce(
+        (prev, part) =>
+          part instanceof SPFilter ? prev.concat(part.expand) : prev,
+        []
+      )
+    );
+  }
+
+  /**
+   * Create a filter from any accepted input
+   */
+  public static from(input: SPFilterInput) {
+    return input instanceof SPFilter
+      ? input
+      : SPFilter.join('and', [].concat(input || []));
+  }
+
+  public and(...filters: (string | SPFilter<I>)[]): SPFilter<I> {
+    return SPFilter.join('and', [this, ...filters]);
+  }
+
+  public or(...filters: (string | SPFilter<I>)[]): SPFilter<I> {
+    return SPFilter.join('or', [this, ...filters]);
+  }
+
+  public not(): SPFilter<I> {
+    return new SPFilter(`not (${this.expression})`, this.expand);
+  }
+
+  public toString() {
+    return this.expression;
+  }
+}
+
+/**
+ * Build typed filters for items of type I
+ *
+ * @example
+ * const f = createFilter<ITasksItem>();
+ * f.eq('Status', 'Done').and(f.lt('Modified', new Date()), f.lookup('Author', 'Title', 'eq', "O'Brien"))
+ */
+export class SPFilterBuilder<I = any> {
+  public compare<K extends SPFilterField<I>>(
+    field: K,
+    operator: 'eq' | 'ne' | 'lt' | 'le' | 'gt' | 'ge',
+    value: SPFilterValue<I[K]>
+  ) {
+    return new SPFilter<I>(`${field} ${operator} ${formatValue(value)}`);
+  }
+
+  public eq<K extends SPFilterField<I>>(field: K, value: SPFilterValue<I[K]>) {
+    return this.compare(field, 'eq', value);
+  }
+
+  public ne<K extends SPFilterField<I>>(field: K, value: SPFilterValue<I[K]>) {
+    return this.compare(field, 'ne', value);
+  }
+
+  public lt<K extends SPFilterField<I>>(field: K, value: SPFilterValue<I[K]>) {
+    return this.compare(field, 'lt', value);
+  }
+
+  public le<K extends SPFilterField<I>>(field: K, value: SPFilterValue<I[K]>) {
+    return this.compare(field, 'le', value);
+  }
+
+  public gt<K extends SPFilterField<I>>(field: K, value: SPFilterValue<I[K]>) {
+    return this.compare(field, 'gt', value);
+  }
+
+  public ge<K extends SPFilterField<I>>(field: K, value: SPFilterValue<I[K]>) {
+    return this.compare(field, 'ge', value);
+  }
+
+  /**
+   * Field is between from (inclusive) and to (exclusive)
+   */
+  public between<K extends SPFilterField<I>>(
+    field: K,
+    from: SPFilterValue<I[K]>,
+    to: SPFilterValue<I[K]>
+  ) {
+    return this.ge(field, from).and(this.lt(field, to));
+  }
+
+  public startswith(field: SPFilterField<I>, value: string) {
+    return new SPFilter<I>(`startswith(${field},${quote(value)})`);
+  }
+
+  public substringof(value: string, field: SPFilterField<I>) {
+    return new SPFilter<I>(`substringof(${quote(value)},${field})`);
+  }
+
+  /**
+   * Compare a field of the item a lookup or user field points to.
+   * The lookup field is expanded automatically by the fetcher.
+   */
+  public lookup(
+    field: SPFilterField<I>,
+    lookupField: string,
+    operator: 'eq' | 'ne' | 'lt' | 'le' | 'gt' | 'ge',
+    value: string | number | boolean | Date
+  ) {
+    return new SPFilter<I>(
+      `${field}/${lookupField} ${operator} ${formatValue(value)}`,
+      [field]
+    );
+  }
+
+  /**
+   * Compare the id of the item a lookup or user field points to
+   */
+  public lookupId(field: SPFilterField<I>, id: number) {
+    return new SPFilter<I>(`${field}Id eq ${id}`);
+  }
+
+  public and(...filters: (string | SPFilter<I>)[]): SPFilter<I> {
+    return SPFilter.join('and', filters);
+  }
+
+  public or(...filters: (string | SPFilter<I>)[]): SPFilter<I> {
+    return SPFilter.join('or', filters);
+  }
+
+  public not(filter: string | SPFilter<I>): SPFilter<I> {
+    return SPFilter.from(filter).not();
+  }
+}
+
+/**
+ * Get a filter builder, optionally typed against an item interface
+ */
+export function createFilter<I = any>() {
+  return new SPFilterBuilder<I>();
+}
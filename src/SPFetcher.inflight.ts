@@ -0,0 +1,76 @@
+import { IRequestInfo } from './interfaces';
+
+/**
+ * Request headers that change the response of a GET-request
+ */
+const VARYING_HEADERS = [
+  'accept',
+  'accept-language',
+  'odata-version',
+  'prefer',
+  'range',
+  'if-match',
+  'if-none-match'
+];
+
+function getHeaderEntries(headers: HeadersInit): string[][] {
+  if (!headers) return [];
+  if (Array.isArray(headers)) return headers;
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    const entries: string[][] = [];
+    headers.forEach((value, name) => entries.push([name, value]));
+    return entries;
+  }
+  const record = headers as Record<string, string>;
+  return Object.keys(record).map(name => [name, record[name]]);
+}
+
+/**
+ * Key of a request for sharing it while in flight: its method, url and the
+ * headers that change its response
+ */
+export function getRequestKey({ method, url, headers }: IRequestInfo) {
+  return [`${method.toUpperCase()} ${url}`]
+    .concat(
+      getHeaderEntries(headers)
+        .map(([name, value]) => [name.toLowerCase(), value])
+        .filter(([name]) => VARYING_HEADERS.indexOf(name) !== -1)
+        .map(([name, value]) => `${name}: ${value}`)
+        .sort()
+    )
+    .join('\n');
+}
+
+/**
+ * Keeps track of pending promises, so that identical requests made while one
+ * is already in flight can share its result.
+ */
+export class InflightRequests {
+  private pending: { [key: string]: Promise<any> };
+
+  constructor() {
+    this.pending = {};
+  }
+
+  /**
+   * Get the pending promise for key, or start a new one
+   */
+  public share<R>(key: string, load: () => Promise<R>): Promise<R> {
+    if (!this.pending[key]) {
+      const done = () => {
+        if (this.pending[key] === promise) delete this.pending[key];
+      };
+      const promise = load();
+      this.pending[key] = promise;
+      promise.then(done, done);
+    }
+    return this.pending[key];
+  }
+
+  /**
+   * Number of promises in flight
+   */
+  public get size() {
+    return Object.keys(this.pending).length;
+  }
+}
@@ -1,22 +1,124 @@
 import { IWeb, sp, SPBatch, Web } from '@pnp/sp/presets/all';
 import {
   BaseComponentContext,
+  FetcherStatus,
+  IBatchResult,
+  ICacheFilter,
   IFetcherBaseProperties,
+  IFetcherDiagnostics,
+  IFetcherEvents,
+  IFetcherOptions,
   IFetcherPropertyTypes,
-  SPFetcherStructure
+  IRecorder,
+  IRequestInfo,
+  IRequestOptions,
+  IResponse,
+  IRetryPolicy,
+  SPFetcherStructure,
+  Transport
 } from './interfaces';
+import {
+  abortable,
+  createAbortError,
+  onAbort,
+  SignalRegistry
+} from './SPFetcher.abort';
+import { defaultBatchOptions, SPBatchScheduler } from './SPFetcher.batching';
+import {
+  defaultCacheTTL,
+  getUrlScope,
+  MemoryCacheStore,
+  SPFetcherCache
+} from './SPFetcher.cache';
+import {
+  errorFromResponse,
+  SPFetcherError,
+  toFetcherError
+} from './SPFetcher.errors';
+import { EventEmitter } from './SPFetcher.events';
+import { getRequestKey, InflightRequests } from './SPFetcher.inflight';
+import {
+  ConcurrencyLimiter,
+  defaultConcurrencyOptions
+} from './SPFetcher.limiter';
+import { SPFetcherMetrics } from './SPFetcher.metrics';
+import { defaultRetryPolicy, withRetry } from './SPFetcher.retry';
+import { getBaseUrl, resolveSite, toAbsoluteUrl } from './SPFetcher.sites';
+
+/**
+ * Reject if promise is not settled within timeout (ms)
+ */
+function withTimeout<R>(promise: Promise<R>, timeout: number, message: string) {
+  return new Promise<R>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), timeout);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Options of a PnP queryable. Request options are passed on to pnpFetch in
+ * the init of every request. Signals are passed by their id in the
+ * SignalRegistry, as PnP does not keep them intact.
+ */
+type PnPRequestOptions = Parameters<IWeb['configure']>[0] &
+  IRequestOptions & { signalId?: string };
+
+/**
+ * A PnP queryable, or anything else that takes its options
+ */
+type Configurable<Q> = { configure(options: PnPRequestOptions): Q };
+
+/**
+ * Keys of IRequestOptions, to tell whether any option is set
+ */
+const requestOptionKeys: (keyof IRequestOptions)[] = [
+  'retry',
+  'priority',
+  'signal',
+  'readOnly'
+];
+
+/**
+ * Copy of values without keys
+ */
+function omit<R extends { [key: string]: any }>(values: R, keys: string[]) {
+  const source: { [key: string]: any } = values;
+  const copy: { [key: string]: any } = {};
+  Object.keys(source)
+    .filter(key => keys.indexOf(key) === -1)
+    .forEach(key => (copy[key] = source[key]));
+  return copy as R;
+}
 
 export class SPFetcherInitializer<T extends SPFetcherStructure> {
   // Properties
   public context: BaseComponentContext;
-  public status: 'not initialized' | 'initializing' | 'ready' | 'error';
-  private queue: (() => void)[];
-  private batches: {
-    [key in T['sites'] | IFetcherBaseProperties['sites']]?: {
-      batch: SPBatch;
-      count: number;
-    };
-  };
+  public status: FetcherStatus;
+  public error: any;
+  public retryPolicy: IRetryPolicy;
+  private queue: { resolve: () => void; reject: (error: any) => void }[];
+  private initializing: Promise<any>;
+  private attempts: number;
+  private startup: AbortController;
+  private batcher: SPBatchScheduler;
+  private cache: SPFetcherCache;
+  private inflight: InflightRequests;
+  private limiter: ConcurrencyLimiter;
+  private signals: SignalRegistry;
+  private transport: Transport;
+  private recorder: IRecorder;
+  private events: EventEmitter<IFetcherEvents>;
+  private metrics: SPFetcherMetrics;
+  private requests: number;
   private webs: {
     [key in T['sites'] | IFetcherBaseProperties['sites']]: IWeb;
   };
@@ -43,12 +145,45 @@ export class SPFetcherInitializer<T extends SPFetcherStructure> {
       | IFetcherBaseProperties['sites']]: IFetcherPropertyTypes['sites'];
   };
 
+  /**
+   * Alternative names for sites, pointing to keys in `sites` or to urls
+   */
+  public aliases: { [alias: string]: string };
+
   // Constructor
   constructor() {
     this.context = undefined;
     this.status = 'not initialized';
+    this.error = undefined;
+    this.retryPolicy = { ...defaultRetryPolicy };
     this.queue = [];
-    this.batches = {};
+    this.initializing = undefined;
+    this.attempts = 0;
+    this.startup = undefined;
+    this.events = new EventEmitter<IFetcherEvents>();
+    this.metrics = new SPFetcherMetrics(this.events);
+    this.requests = 0;
+    this.batcher = new SPBatchScheduler(
+      { ...defaultBatchOptions },
+      (site, results, duration) =>
+        this.emit('batchFlush', {
+          site,
+          size: results.length,
+          failed: results.filter(result => result.status === 'rejected').length,
+          duration
+        })
+    );
+    this.cache = new SPFetcherCache(
+      {
+        store: new MemoryCacheStore(),
+        ttl: { ...defaultCacheTTL }
+      },
+      ({ method, site, list, key }) =>
+        this.emit('cacheHit', { method, site, list, key })
+    );
+    this.inflight = new InflightRequests();
+    this.limiter = new ConcurrencyLimiter({ ...defaultConcurrencyOptions });
+    this.signals = new SignalRegistry();
     this.webs = {
       ...this.webs
     };
@@ -64,48 +199,230 @@ export class SPFetcherInitializer<T extends SPFetcherStructure> {
     this.sites = {
       ...this.sites
     };
+    this.aliases = {
+      ...this.aliases
+    };
   }
 
   /**
    * Initializer
+   * Calling it while initializing returns the pending initialization. Calling it
+   * after a failure tries again. The startup routines of an attempt that failed,
+   * timed out or was reset are aborted.
    */
-  public initialize(context: BaseComponentContext) {
-    return new Promise(resolve => {
-      if (this.status === 'initializing') {
-        this.queue.push(resolve as any);
-      } else {
-        this.status = 'initializing';
-        this.context = context;
-
-        // Setup pnp
-        sp.setup({ spfxContext: context });
-
-        // Extract sites from context
-        this.sites.default = this.context.pageContext.site.absoluteUrl;
-        this.sites.current = `${this.sites.default}`;
-        this.sites.base = `${this.sites.default}`.match(
-          /(.*).sharepoint.com/
-        )[0];
-
-        // Extract urls from context
-        this.urls.absolute = this.sites.default;
-        this.urls.base = this.sites.base;
-
-        // Get new web object
-        this.Web().then(() => resolve(undefined));
-      }
-    })
-      .then(() => this.startupRoutines())
+  public initialize(context: BaseComponentContext, options?: IFetcherOptions) {
+    if (this.status === 'initializing') return this.initializing;
+    const attempt = (this.attempts += 1);
+    if (this.startup) this.startup.abort();
+    const startup = (this.startup = new AbortController());
+    const initializing = new Promise((resolve, reject) => {
+      this.setStatus('initializing');
+      this.context = context;
+      if (options && options.retry)
+        this.retryPolicy = { ...this.retryPolicy, ...options.retry };
+      if (options && options.batch)
+        this.batcher.options = { ...this.batcher.options, ...options.batch };
+      if (options && options.cache)
+        this.cache.options = {
+          store: options.cache.store || this.cache.options.store,
+          ttl: { ...this.cache.options.ttl, ...options.cache.ttl }
+        };
+      if (options && options.transport) this.transport = options.transport;
+      if (options && options.recorder) this.recorder = options.recorder;
+      if (options && options.concurrency)
+        this.limiter.options = {
+          ...this.limiter.options,
+          ...options.concurrency
+        };
+
+      // Setup pnp. All of its requests are routed through send().
+      sp.setup({
+        spfxContext: context,
+        sp: {
+          fetchClientFactory: () => ({
+            fetch: (url: string, init: RequestInit & PnPRequestOptions) =>
+              this.pnpFetch(url, init)
+          })
+        }
+      });
+
+      // Extract sites from context. Overrides and relative urls are resolved
+      // against the base url.
+      const site = this.context.pageContext.site;
+      const overrides = (options && options.sites) || {};
+      this.sites.default = site.absoluteUrl.replace(/\/+$/, '');
+      this.sites.current = `${this.sites.default}`;
+      this.sites.base = overrides.base
+        ? overrides.base.replace(/\/+$/, '')
+        : getBaseUrl(site.absoluteUrl, site.serverRelativeUrl);
+      const urls = this.siteUrls;
+      Object.keys(overrides).forEach(key => (urls[key] = overrides[key]));
+      Object.keys(urls).forEach(
+        key => (urls[key] = toAbsoluteUrl(urls[key], this.sites.base))
+      );
+      if (options && options.aliases)
+        this.aliases = { ...this.aliases, ...options.aliases };
+
+      // Extract urls from context
+      this.urls.absolute = this.sites.default;
+      this.urls.base = this.sites.base;
+
+      // Get new web object
+      abortable(this.Web(), startup.signal).then(
+        () => resolve(undefined),
+        reject
+      );
+    }).then(() =>
+      startup.signal.aborted
+        ? Promise.reject(createAbortError())
+        : abortable(this.startupRoutines(startup.signal), startup.signal)
+    );
+    this.initializing = (options && options.timeout
+      ? withTimeout(
+          initializing,
+          options.timeout,
+          `Initialization timed out after ${options.timeout}ms.`
+        )
+      : initializing
+    )
       .then(r => {
-        this.status = 'ready';
-        this.queue.forEach(callback => callback());
-        this.queue = [];
+        if (attempt === this.attempts) {
+          this.setStatus('ready');
+          this.settleQueue();
+        }
         return r;
       })
-      .catch((error: Error) => {
-        this.status = 'error';
+      .catch(error => {
+        if (attempt === this.attempts) {
+          startup.abort();
+          this.setStatus('error', error);
+          this.settleQueue(error);
+        }
         throw error;
       });
+    return this.initializing;
+  }
+
+  /**
+   * Reset the fetcher, so that it can be initialized again, e.g. after a
+   * context change. Clears webs, pending batches and caches. Callers waiting
+   * for the fetcher to be ready are rejected, and running startup routines are
+   * aborted.
+   */
+  public reset() {
+    const error = new Error('The fetcher was reset.');
+    this.attempts += 1;
+    if (this.startup) this.startup.abort();
+    this.startup = undefined;
+    this.setStatus('not initialized');
+    this.context = undefined;
+    this.initializing = undefined;
+    this.settleQueue(error);
+    this.batcher.clear(error);
+    this.cache.invalidate();
+    this.inflight = new InflightRequests();
+    this.webs = omit(this.webs, Object.keys(this.webs));
+    this.sites = omit(this.sites, ['default', 'current', 'base']);
+    this.urls = omit(this.urls, ['absolute', 'base']);
+  }
+
+  /**
+   * Dispose the fetcher, e.g. from a webpart's onDispose.
+   * Same as reset().
+   */
+  public dispose() {
+    this.reset();
+  }
+
+  /**
+   * Subscribe to an event of the fetcher
+   *
+   * @returns A function that removes the listener
+   *
+   * @example
+   * Fetcher.on('status', ({ status }) => this.setState({ loading: status === 'initializing' }));
+   * Fetcher.on('requestEnd', ({ url, status, duration }) => log(url, status, duration));
+   */
+  public on<K extends keyof IFetcherEvents>(
+    event: K,
+    listener: (payload: IFetcherEvents[K]) => void
+  ) {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  public once<K extends keyof IFetcherEvents>(
+    event: K,
+    listener: (payload: IFetcherEvents[K]) => void
+  ) {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  public off<K extends keyof IFetcherEvents>(
+    event: K,
+    listener: (payload: IFetcherEvents[K]) => void
+  ) {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Get a serializable snapshot of request counts, timings, batches, retries
+   * and errors per site and per endpoint. Attach it to support tickets.
+   *
+   * @example
+   * console.log(JSON.stringify(Fetcher.getDiagnostics(), null, 2));
+   */
+  public getDiagnostics(): IFetcherDiagnostics {
+    return {
+      generated: new Date().toISOString(),
+      status: this.status,
+      inflight: this.inflight.size,
+      queuedRequests: this.limiter.queued,
+      pendingBatchRequests: this.batcher.pending,
+      ...this.metrics.snapshot()
+    };
+  }
+
+  /**
+   * Clear the counters behind getDiagnostics()
+   */
+  public resetDiagnostics() {
+    this.metrics.reset();
+  }
+
+  /**
+   * Emit an event of the fetcher
+   */
+  protected emit<K extends keyof IFetcherEvents>(
+    event: K,
+    payload: IFetcherEvents[K]
+  ) {
+    this.events.emit(event, payload);
+  }
+
+  /**
+   * Helper method: Update status, and let listeners know
+   */
+  private setStatus(status: FetcherStatus, error?: any) {
+    this.status = status;
+    this.error = error;
+    this.emit('status', error === undefined ? { status } : { status, error });
+  }
+
+  /**
+   * Helper method: Resolve everyone waiting in the queue, or reject them with error
+   */
+  private settleQueue(error?: any) {
+    const queue = this.queue;
+    this.queue = [];
+    queue.forEach(({ resolve, reject }) =>
+      error === undefined ? resolve() : reject(error)
+    );
   }
 
   /**
@@ -114,7 +431,7 @@ export class SPFetcherInitializer<T extends SPFetcherStructure> {
   public getWeb(site?: keyof SPFetcherInitializer<T>['sites']) {
     return this.ready().then(() =>
       site
-        ? Web(this.sites[site])
+        ? Web(this.getSiteUrl(site))
         : Web(this.context.pageContext.site.absoluteUrl)
     );
   }
@@ -129,20 +446,322 @@ export class SPFetcherInitializer<T extends SPFetcherStructure> {
   /**
    * Get a new web object for the given site.
    * Only to be used by utility methods.
+   *
+   * @param site - Key in `sites`, an alias or the url of a site. Urls are
+   * added to `sites`. Rejects with an SPFetcherError for anything else.
+   * @param options - Per-call overrides. Returns a fresh web object configured
+   * with these instead of the shared one. A signal stays registered for the
+   * web until it aborts; utility methods use withWeb instead.
    */
   public Web(
     site: keyof SPFetcherInitializer<T>['sites'] = 'default',
-    only_ready?: boolean
+    only_ready?: boolean,
+    options?: IRequestOptions
+  ) {
+    const configured =
+      options && requestOptionKeys.some(key => options[key] !== undefined);
+    return abortable(this.ready(only_ready), options && options.signal).then(
+      () => {
+        const url = this.getSiteUrl(site);
+        const config: PnPRequestOptions = {
+          ...options,
+          signal: undefined,
+          signalId: this.bindSignal(options && options.signal)
+        };
+        if (!this.sites[site] && !this.aliases[site as string])
+          this.sites[site] = url;
+        return configured
+          ? Web(url).configure(config)
+          : (this.webs[site] = this.webs[site] || Web(url));
+      }
+    );
+  }
+
+  /**
+   * Helper method: Let signal cancel the requests that request sends with
+   * query. Configures query itself, so pass a new queryable, e.g. list.fields
+   * or List(list). The signal is registered until request settles.
+   */
+  protected withSignal<Q extends Configurable<Q>, R>(
+    query: Q,
+    signal: AbortSignal | undefined,
+    request: (query: Q) => Promise<R>
+  ): Promise<R> {
+    return this.holdSignal(signal, bind => request(bind(query)));
+  }
+
+  /**
+   * Helper method: Keep signal registered until request settles. Queryables
+   * configured by bind pass signal on to their requests whenever it is held,
+   * as a signal keeps its id.
+   */
+  protected holdSignal<R>(
+    signal: AbortSignal | undefined,
+    request: (bind: <Q extends Configurable<Q>>(query: Q) => Q) => Promise<R>
+  ): Promise<R> {
+    if (!signal) return request(query => query);
+    const id = this.signals.register(signal);
+    const release = () => this.signals.release(id);
+    return request(query => query.configure({ signalId: id })).then(
+      value => {
+        release();
+        return value;
+      },
+      error => {
+        release();
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * Helper method: Let signal cancel the requests that request sends with a
+   * web of site, see withSignal
+   */
+  protected withWeb<R>(
+    site: keyof SPFetcherInitializer<T>['sites'] | undefined,
+    signal: AbortSignal | undefined,
+    request: (web: IWeb) => Promise<R>
+  ): Promise<R> {
+    // A copy of the shared web, at the same url
+    return abortable(this.Web(site), signal).then(web =>
+      this.withSignal(Web(web, ''), signal, request)
+    );
+  }
+
+  /**
+   * Helper method: Id of signal to pass in the options of a web handed to
+   * callers, see pnpFetch. Nothing tells when callers are done with the web,
+   * so the id is held until signal aborts.
+   */
+  private bindSignal(signal?: AbortSignal) {
+    if (!signal) return undefined;
+    const id = this.signals.register(signal);
+    onAbort(signal, () => this.signals.release(id));
+    return id;
+  }
+
+  /**
+   * Urls in `sites` by key
+   */
+  protected get siteUrls(): { [key: string]: string } {
+    return this.sites;
+  }
+
+  /**
+   * Get the absolute url of a site by its key in `sites`, an alias or an url
+   * Throws an SPFetcherError if site is none of these.
+   */
+  protected getSiteUrl(site: string): string {
+    const url = resolveSite(site, this.siteUrls, this.aliases);
+    if (url === undefined)
+      throw new SPFetcherError(
+        `Unknown site "${site}". Add it to sites or aliases, or use its url.`,
+        { site, code: 'UnknownSite' }
+      );
+    return url;
+  }
+
+  /**
+   * Send a request through the fetcher's transport.
+   * Both spHttpClient requests and PnP requests pass through here.
+   * Identical GET-requests that are already in flight share one response,
+   * unless they can be aborted.
+   * Every attempt waits for room under the concurrency limits, and passes
+   * through the recorder if there is one.
+   *
+   * @param request - Performs the actual request. Called once per attempt.
+   */
+  protected send<R extends IResponse>(
+    info: IRequestInfo,
+    options: IRequestOptions,
+    request: () => Promise<R>
+  ): Promise<R> {
+    const signal = options ? options.signal : undefined;
+    if (signal && signal.aborted) return Promise.reject(createAbortError());
+    const perform = () => {
+      const id = (this.requests += 1);
+      const started = Date.now();
+      const end = (status: number, error?: any) =>
+        this.emit('requestEnd', {
+          id,
+          url: info.url,
+          method: info.method,
+          status,
+          duration: Date.now() - started,
+          error
+        });
+      this.emit('requestStart', { id, url: info.url, method: info.method });
+      const site = getUrlScope(info.url).site;
+      const attempt = () =>
+        this.recorder
+          ? (this.recorder.handle(info, request) as Promise<R>)
+          : request();
+      return withRetry(
+        () =>
+          this.limiter.run(
+            site,
+            options ? options.priority : undefined,
+            attempt,
+            signal
+          ),
+        this.getRetryPolicy(options),
+        (attempt, delay, response) =>
+          this.emit('retry', {
+            url: info.url,
+            method: info.method,
+            attempt,
+            delay,
+            status: response.status
+          }),
+        () => this.metrics.addThrottled(info.url, info.method)
+      ).then(
+        response => {
+          if (!(options && options.readOnly))
+            this.cache.invalidateRequest(info);
+          end(response.status);
+          return response;
+        },
+        error => {
+          end(undefined, error);
+          throw error;
+        }
+      );
+    };
+    return info.method.toUpperCase() === 'GET' && !signal
+      ? this.shared(getRequestKey(info), perform).then(
+          response => response.clone() as R
+        )
+      : abortable(perform(), signal);
+  }
+
+  /**
+   * Share the result of load between all callers using the same key while
+   * it is in flight.
+   *
+   * @example
+   * return this.shared(`termset-${id}`, () => this.post(...));
+   */
+  protected shared<R>(key: string, load: () => Promise<R>) {
+    return this.inflight.share(key, load);
+  }
+
+  /**
+   * Get a value from the response cache, or load and cache it.
+   * The time to live is configured per method. Concurrent loads of the same
+   * entry share one request, unless they can be aborted.
+   *
+   * @param url - Url of the resource. Decides the site and list of the entry.
+   * @param key - Tells entries of the same method and resource apart
+   * @param signal - The signal load passes to its requests
+   */
+  protected cached<R>(
+    method: string,
+    url: string,
+    load: () => Promise<R>,
+    key?: string,
+    signal?: AbortSignal
+  ) {
+    return this.cache.get(
+      method,
+      url,
+      signal
+        ? load
+        : () => this.shared([method, url, key || ''].join('|'), load),
+      key
+    );
+  }
+
+  /**
+   * Utility method: Remove entries from the response cache.
+   * Entries are invalidated automatically after writes through the fetcher.
+   *
+   * @example
+   * this.invalidateCache({ site: 'default', list: 'Documents' });
+   */
+  public invalidateCache(filter: ICacheFilter = {}) {
+    this.cache.invalidate({
+      ...filter,
+      site:
+        filter.site &&
+        (resolveSite(filter.site, this.siteUrls, this.aliases) || filter.site)
+    });
+  }
+
+  /**
+   * Helper method: Get the retry policy for a request
+   */
+  private getRetryPolicy(options?: IRequestOptions): IRetryPolicy {
+    return { ...this.retryPolicy, ...(options && options.retry) };
+  }
+
+  /**
+   * Helper method: Fetch client used by pnp.
+   * Rejects when still throttled once retries are spent, so that pnp does not
+   * start retrying on its own.
+   */
+  private pnpFetch(
+    url: string,
+    { signalId, ...options }: RequestInit & PnPRequestOptions
   ) {
-    if (!this.sites[site]) this.sites[site] = site;
-    return this.ready(only_ready).then(
-      () => (this.webs[site] = this.webs[site] || Web(this.sites[site]))
+    // Ids that are no longer held belong to webs whose signal aborted
+    const signal =
+      signalId === undefined ? undefined : this.signals.get(signalId);
+    if (signalId !== undefined && !signal)
+      return Promise.reject(createAbortError());
+    const init = { ...options, signal };
+    return this.send(
+      {
+        url,
+        method: init.method || 'GET',
+        body: init.body,
+        headers: init.headers
+      },
+      init,
+      () => (this.transport || fetch)(url, init)
+    ).then(response =>
+      response.status === 429
+        ? errorFromResponse(response, {
+            url,
+            site: this.getSiteKey(url)
+          }).then(error => Promise.reject(error))
+        : response
     );
   }
 
+  /**
+   * Get the key in `sites` of the site an url belongs to
+   */
+  protected getSiteKey(url: string) {
+    const target = `${url}`.toLowerCase();
+    const urls = this.siteUrls;
+    return Object.keys(urls)
+      .filter(key => {
+        const site = `${urls[key] || ''}`.toLowerCase();
+        return (
+          site.length && (target === site || target.startsWith(`${site}/`))
+        );
+      })
+      .sort((a, b) => `${urls[b]}`.length - `${urls[a]}`.length)[0];
+  }
+
+  /**
+   * Get a handler that rejects with an SPFetcherError, whatever the failure
+   *
+   * @example
+   * return this.Web(site).then(web => web.get()).catch(this.fail(site));
+   */
+  protected fail(site: string = 'default', url?: string) {
+    return (error: any): Promise<never> =>
+      toFetcherError(error, { site, url }).then(normalized =>
+        Promise.reject(normalized)
+      );
+  }
+
   /**
    * Execute immediately if ready.
    * Otherwise add promise to queue. It will be resolved during initialization.
+   * Rejects with the initialization error if initialization failed.
    *
    * A tip: Always use this one to initialize a promise chain.
    *
@@ -154,13 +773,15 @@ export class SPFetcherInitializer<T extends SPFetcherStructure> {
    * }
    */
   public ready(only_ready?: boolean): Promise<void> {
-    return new Promise(resolve => {
+    return new Promise((resolve, reject) => {
       if (
         this.status === 'ready' ||
         (only_ready ? false : this.status === 'initializing')
       ) {
         resolve();
-      } else this.queue.push(resolve);
+      } else if (this.status === 'error') {
+        reject(this.error);
+      } else this.queue.push({ resolve, reject });
     });
   }
 
@@ -168,8 +789,12 @@ export class SPFetcherInitializer<T extends SPFetcherStructure> {
    * Startup routines
    * This method will be called during fetcher initialization, before tasks in
    * the queue (i.e. tasks that called .ready() before initialization) are executed.
+   *
+   * @param _signal - Aborts when initialization fails, times out or is reset.
+   * Pass it to the requests of the routines, so that a stale run does not
+   * write its results after a new one.
    */
-  protected startupRoutines(): Promise<any> {
+  protected startupRoutines(_signal?: AbortSignal): Promise<any> {
     return Promise.all([]);
   }
 
@@ -180,36 +805,53 @@ export class SPFetcherInitializer<T extends SPFetcherStructure> {
     return this.Web(site).then(web => web.createBatch());
   }
 
+  /**
+   * Utility method: Add a request to the shared batch of the given site.
+   * The batch is executed once it is full, once its delay has passed, or when flushed.
+   *
+   * @param request - Adds the request to the batch, e.g. batch => query.inBatch(batch).get()
+   * @param signal - Removes the request from the batch if it has not been executed yet
+   * @returns The result of this request alone
+   *
+   * @example
+   * this.inBatch(batch => list.items.getById(1).inBatch(batch).get(), 'default');
+   */
+  public inBatch<R>(
+    request: (batch: SPBatch) => Promise<R>,
+    site: keyof SPFetcherInitializer<T>['sites'] = 'default',
+    signal?: AbortSignal
+  ): Promise<R> {
+    return abortable(
+      this.batcher.add(site as string, () => this.Web(site), request, signal),
+      signal
+    );
+  }
+
   /**
    * Utility method: Returns a batch object that will execute automatically
    *
-   * @param timeout - Maximum delay before executing batch
+   * @deprecated Use inBatch(). The batches returned here are the shared
+   * batches of inBatch(), and are executed after the delay in the batch options.
+   * @param _timeout - Ignored
    */
   public autoBatch(
-    timeout: number = 50,
+    _timeout: number = 50,
     site: keyof SPFetcherInitializer<T>['sites'] = 'default'
   ) {
-    const key = `[${timeout}ms] - ${site}`;
-    return this.Web(site).then(web => {
-      return () => {
-        if (this.batches[key] && this.batches[key].count >= 50)
-          this.batches[key] = undefined;
-        if (!this.batches[key]) {
-          const batch = web.createBatch();
-          this.batches[key] = {
-            batch,
-            count: 0
-          };
-          setTimeout(() => {
-            this.batches[key] = undefined;
-            setTimeout(() => {
-              batch.execute();
-            }, 5);
-          }, timeout);
-        }
-        this.batches[key].count += 1;
-        return this.batches[key].batch;
-      };
-    });
+    return this.Web(site).then(web => () =>
+      this.batcher.reserve(site as string, web)
+    );
+  }
+
+  /**
+   * Utility method: Execute pending batches right away
+   *
+   * @param site - Only flush the batch of this site
+   * @returns The result of every request, once all batches are done
+   */
+  public flush(
+    site?: keyof SPFetcherInitializer<T>['sites']
+  ): Promise<IBatchResult[]> {
+    return this.batcher.flush(site as string);
   }
 }
@@ -0,0 +1,113 @@
+import { IConcurrencyOptions, RequestPriority } from './interfaces';
+import { createAbortError, onAbort } from './SPFetcher.abort';
+
+export const defaultConcurrencyOptions: IConcurrencyOptions = {
+  global: 10,
+  perSite: 6
+};
+
+const priorities: { [key in RequestPriority]: number } = {
+  high: 2,
+  normal: 1,
+  low: 0
+};
+
+interface IQueuedTask {
+  site: string;
+  priority: number;
+  start: () => void;
+}
+
+/**
+ * Limits the number of tasks running at once, in total and per site.
+ * Waiting tasks start by priority, and in order of arrival within a priority.
+ */
+export class ConcurrencyLimiter {
+  public options: IConcurrencyOptions;
+  private running: number;
+  private runningPerSite: { [site: string]: number };
+  private queue: IQueuedTask[];
+
+  constructor(options: IConcurrencyOptions = defaultConcurrencyOptions) {
+    this.options = options;
+    this.running = 0;
+    this.runningPerSite = {};
+    this.queue = [];
+  }
+
+  /**
+   * Run task once there is room for it
+   *
+   * @param signal - Removes the task from the queue if it has not started yet
+   */
+  public run<R>(
+    site: string,
+    priority: RequestPriority = 'normal',
+    task: () => Promise<R>,
+    signal?: AbortSignal
+  ): Promise<R> {
+    return new Promise<R>((resolve, reject) => {
+      if (signal && signal.aborted) return reject(createAbortError());
+      const off = onAbort(signal, () => {
+        const idx = this.queue.indexOf(entry);
+        if (idx === -1) return;
+        this.queue.splice(idx, 1);
+        reject(createAbortError());
+      });
+      const entry: IQueuedTask = {
+        site,
+        priority: priorities[priority],
+        start: () => {
+          off();
+          this.running += 1;
+          this.runningPerSite[site] = (this.runningPerSite[site] || 0) + 1;
+          const done = () => {
+            this.running -= 1;
+            this.runningPerSite[site] -= 1;
+            this.next();
+          };
+          let promise: Promise<R>;
+          try {
+            promise = task();
+          } catch (error) {
+            promise = Promise.reject(error);
+          }
+          promise.then(
+            value => {
+              done();
+              resolve(value);
+            },
+            error => {
+              done();
+              reject(error);
+            }
+          );
+        }
+      };
+      const idx = this.queue.findIndex(test => test.priority < entry.priority);
+      if (idx === -1) this.queue.push(entry);
+      else this.queue.splice(idx, 0, entry);
+      this.next();
+    });
+  }
+
+  /**
+   * Number of tasks waiting for room
+   */
+  public get queued() {
+    return this.queue.length;
+  }
+
+  /**
+   * Start waiting tasks while there is room
+   */
+  private next() {
+    while (this.running < this.options.global) {
+      const idx = this.queue.findIndex(
+        test => (this.runningPerSite[test.site] || 0) < this.options.perSite
+      );
+      if (idx === -1) return;
+      this.queue.splice(idx, 1)[0].start();
+    }
+  }
+}
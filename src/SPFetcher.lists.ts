@@ -0,0 +1,221 @@
+import { IList, PagedItemCollection } from '@pnp/sp/presets/all';
+import { SPFilter, SPFilterField, SPFilterInput } from './SPFetcher.filter';
+import { collectPages, createPageIterator } from './SPFetcher.paging';
+import { SPWriteValue } from './SPFetcher.values';
+
+/**
+ * Value type of a field in an item, as typed by the interfaces from
+ * getProjectTypings. Dates are ISO strings. Lookup and user fields are only
+ * set when expanded; their ids are found in `${field}Id`.
+ */
+export type SPItemValue<F> = F extends {
+  'odata.type': 'SP.FieldNumber' | 'SP.FieldCurrency';
+}
+  ? number
+  : F extends { 'odata.type': 'SP.FieldMultiChoice' }
+  ? string[]
+  : F extends { 'odata.type': 'SP.FieldLookup' | 'SP.FieldUser' }
+  ? { Id: number; Title?: string; [key: string]: any }
+  : F extends { 'odata.type': 'SP.FieldUrl' }
+  ? { Description: string; Url: string }
+  : F extends { 'odata.type': 'SP.Taxonomy.TaxonomyField' }
+  ? { Label: string; TermGuid: string; WssId: number }
+  : F extends {
+      'odata.type': 'SP.Field' | 'SP.FieldCalculated' | 'SP.FieldComputed';
+    }
+  ? string | number | boolean
+  : F extends { 'odata.type': 'SP.FieldGeolocation' }
+  ? { Latitude: number; Longitude: number; [key: string]: any }
+  : F extends { 'odata.type': string }
+  ? string
+  : any;
+
+/**
+ * An item of a list with the item interface I
+ */
+export type SPListItem<I> = { Id: number } & {
+  [K in keyof I]: SPItemValue<I[K]>;
+} & { [key: string]: any };
+
+/**
+ * Values to write to an item of a list with the item interface I.
+ * They are serialized per field type, see serializeItem.
+ */
+export type SPItemValues<I> = {
+  [K in keyof I]?: SPWriteValue<I[K]>;
+} & { [key: string]: any };
+
+/**
+ * Writes items, serializing values per field type
+ */
+export interface IItemWriter {
+  createItem(
+    list: IList,
+    values: { [key: string]: any },
+    signal?: AbortSignal
+  ): Promise<any>;
+  updateItem(
+    list: IList,
+    id: number,
+    values: { [key: string]: any },
+    signal?: AbortSignal
+  ): Promise<void>;
+  deleteItem(list: IList, id: number, signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Sends the requests of request with list, passing signal on to them
+ */
+export type ListRequest = <R>(
+  list: IList,
+  signal: AbortSignal | undefined,
+  request: (list: IList) => Promise<R>
+) => Promise<R>;
+
+/**
+ * Query for items of a typed list
+ */
+export interface IItemsQuery<I> {
+  select?: (SPFilterField<I> | 'Id')[];
+
+  /**
+   * Lookup and user fields to expand. Fields compared by a filter are expanded automatically.
+   */
+  expand?: SPFilterField<I>[];
+  filter?: SPFilterInput;
+  orderBy?: SPFilterField<I> | 'Id';
+  ascending?: boolean;
+
+  /**
+   * Page size. All pages are loaded.
+   */
+  top?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A registered list, with items typed by the interface I
+ *
+ * @example
+ * Fetcher.list('Tasks')
+ *   .items({ filter: createFilter<ITasksItem>().eq('Status', 'Done'), select: ['Title'] })
+ *   .then(items => items.map(item => item.Title));
+ */
+export class SPListHandle<I = any> {
+  private resolve: (signal?: AbortSignal) => Promise<IList>;
+  private send: ListRequest;
+  private writer: IItemWriter;
+  private fail: (error: any) => Promise<never>;
+
+  constructor(
+    resolve: (signal?: AbortSignal) => Promise<IList>,
+    send: ListRequest,
+    writer: IItemWriter,
+    fail: (error: any) => Promise<never>
+  ) {
+    this.resolve = resolve;
+    this.send = send;
+    this.writer = writer;
+    this.fail = fail;
+  }
+
+  /**
+   * Get the underlying pnp list
+   */
+  public getList(signal?: AbortSignal) {
+    return this.resolve(signal);
+  }
+
+  /**
+   * Get all items matching query, following every page
+   */
+  public items(query: IItemsQuery<I> = {}): Promise<SPListItem<I>[]> {
+    const filters = SPFilter.from(query.filter || []);
+    const expand = filters.expand.concat(query.expand || []);
+    return this.resolve(query.signal)
+      .then(resolved =>
+        this.send(resolved, query.signal, list => {
+          const filtered = `${filters}`.length
+            ? list.items.filter(`${filters}`)
+            : list.items;
+          const expanded = expand.length
+            ? filtered.expand(...expand)
+            : filtered;
+          const selected = query.select
+            ? expanded.select(...query.select)
+            : expanded;
+          const ordered = query.orderBy
+            ? selected.orderBy(query.orderBy, query.ascending !== false)
+            : selected;
+          const items = query.top ? ordered.top(query.top) : ordered;
+          let page: PagedItemCollection<SPListItem<I>[]>;
+          return collectPages<SPListItem<I>>(
+            createPageIterator(() =>
+              page
+                ? page.hasNext
+                  ? page.getNext().then(next => (page = next).results)
+                  : Promise.resolve(undefined)
+                : items
+                    .getPaged<SPListItem<I>[]>()
+                    .then(next => (page = next).results)
+            )
+          );
+        })
+      )
+      .catch(this.fail);
+  }
+
+  /**
+   * Get an item by id
+   */
+  public getById(
+    id: number,
+    select?: (SPFilterField<I> | 'Id')[],
+    signal?: AbortSignal
+  ): Promise<SPListItem<I>> {
+    return this.resolve(signal)
+      .then(resolved =>
+        this.send(resolved, signal, list => {
+          const item = list.items.getById(id);
+          return (select ? item.select(...select) : item).get();
+        })
+      )
+      .catch(this.fail);
+  }
+
+  /**
+   * Add an item
+   *
+   * @returns The created item
+   */
+  public add(
+    values: SPItemValues<I>,
+    signal?: AbortSignal
+  ): Promise<SPListItem<I>> {
+    return this.resolve(signal)
+      .then(list => this.writer.createItem(list, values, signal))
+      .catch(this.fail);
+  }
+
+  /**
+   * Update an item. Fields not in values are left untouched.
+   */
+  public update(
+    id: number,
+    values: SPItemValues<I>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return this.resolve(signal)
+      .then(list => this.writer.updateItem(list, id, values, signal))
+      .catch(this.fail);
+  }
+
+  /**
+   * Delete an item
+   */
+  public delete(id: number, signal?: AbortSignal): Promise<void> {
+    return this.resolve(signal)
+      .then(list => this.writer.deleteItem(list, id, signal))
+      .catch(this.fail);
+  }
+}
@@ -0,0 +1,165 @@
+import { getUrlScope } from './SPFetcher.cache';
+import { EventEmitter } from './SPFetcher.events';
+import {
+  IBatchStats,
+  IFetcherDiagnostics,
+  IFetcherEvents,
+  IRequestStats
+} from './interfaces';
+
+/**
+ * Number of errors kept for the diagnostics snapshot
+ */
+const RECENT_ERRORS = 20;
+
+function createStats(): IRequestStats {
+  return {
+    count: 0,
+    errors: 0,
+    throttled: 0,
+    totalDuration: 0,
+    averageDuration: 0,
+    maxDuration: 0
+  };
+}
+
+function getStats(collection: { [key: string]: IRequestStats }, key: string) {
+  return (collection[key] = collection[key] || createStats());
+}
+
+/**
+ * Get the endpoint of a request url, with ids, guids and string arguments
+ * replaced, so that similar requests are counted together.
+ *
+ * @example
+ * getEndpoint("https://x.sharepoint.com/sites/a/_api/web/lists/getById('6f0c...')/items(5)?$top=10")
+ * // "_api/web/lists/getById(*)/items(*)"
+ */
+export function getEndpoint(url: string) {
+  const path = url.split('?')[0];
+  const idx = path.search(/\/(_api|_vti_bin)\//i);
+  return (idx === -1 ? path : path.slice(idx + 1))
+    .replace(/\(([^)]*)\)/g, (match, args) => (args.length ? '(*)' : match))
+    .replace(/\/\d+(?=\/|$)/g, '/*');
+}
+
+/**
+ * Counts requests, durations, batches, retries and cache hits from the
+ * fetcher's events.
+ */
+export class SPFetcherMetrics {
+  private since: number;
+  private sites: { [site: string]: IRequestStats };
+  private endpoints: { [endpoint: string]: IRequestStats };
+  private batches: IBatchStats;
+  private retries: number;
+  private cacheHits: number;
+  private recentErrors: IFetcherDiagnostics['recentErrors'];
+
+  constructor(events: EventEmitter<IFetcherEvents>) {
+    this.reset();
+    events.on('requestEnd', payload => this.onRequestEnd(payload));
+    events.on('retry', () => (this.retries += 1));
+    events.on('cacheHit', () => (this.cacheHits += 1));
+    events.on('batchFlush', payload => this.onBatchFlush(payload));
+  }
+
+  /**
+   * Clear all counters
+   */
+  public reset() {
+    this.since = Date.now();
+    this.sites = {};
+    this.endpoints = {};
+    this.batches = {
+      count: 0,
+      requests: 0,
+      failed: 0,
+      maxSize: 0,
+      averageSize: 0
+    };
+    this.retries = 0;
+    this.cacheHits = 0;
+    this.recentErrors = [];
+  }
+
+  /**
+   * Count a throttled response. Called for every attempt, as responses that
+   * are retried never reach requestEnd.
+   */
+  public addThrottled(url: string, method: string) {
+    this.getRequestStats(url, method).forEach(stats => (stats.throttled += 1));
+  }
+
+  /**
+   * Get a serializable copy of all counters
+   */
+  public snapshot(): Pick<
+    IFetcherDiagnostics,
+    | 'since'
+    | 'sites'
+    | 'endpoints'
+    | 'batches'
+    | 'retries'
+    | 'cacheHits'
+    | 'recentErrors'
+  > {
+    return JSON.parse(
+      JSON.stringify({
+        since: new Date(this.since).toISOString(),
+        sites: this.sites,
+        endpoints: this.endpoints,
+        batches: this.batches,
+        retries: this.retries,
+        cacheHits: this.cacheHits,
+        recentErrors: this.recentErrors
+      })
+    );
+  }
+
+  private onRequestEnd({
+    url,
+    method,
+    status,
+    duration,
+    error
+  }: IFetcherEvents['requestEnd']) {
+    const failed = error !== undefined || !(status < 400);
+    this.getRequestStats(url, method).forEach(stats => {
+      stats.count += 1;
+      stats.errors += failed ? 1 : 0;
+      stats.totalDuration += duration;
+      stats.averageDuration = Math.round(stats.totalDuration / stats.count);
+      stats.maxDuration = Math.max(stats.maxDuration, duration);
+    });
+    if (failed)
+      this.recentErrors = this.recentErrors
+        .concat({
+          time: new Date().toISOString(),
+          url,
+          method,
+          status,
+          message: error ? `${(error && error.message) || error}` : undefined
+        })
+        .slice(-RECENT_ERRORS);
+  }
+
+  /**
+   * Stats of the site and of the endpoint of a request
+   */
+  private getRequestStats(url: string, method: string) {
+    return [
+      getStats(this.sites, getUrlScope(url).site),
+      getStats(this.endpoints, `${method.toUpperCase()} ${getEndpoint(url)}`)
+    ];
+  }
+
+  private onBatchFlush({ size, failed }: IFetcherEvents['batchFlush']) {
+    this.batches.count += 1;
+    this.batches.requests += size;
+    this.batches.failed += failed;
+    this.batches.maxSize = Math.max(this.batches.maxSize, size);
+    this.batches.averageSize =
+      Math.round((this.batches.requests / this.batches.count) * 10) / 10;
+  }
+}
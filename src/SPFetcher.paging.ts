@@ -0,0 +1,46 @@
+/**
+ * Maximum number of items SharePoint will scan in a single query
+ */
+export const LIST_VIEW_THRESHOLD = 5000;
+
+/**
+ * Check whether an error was caused by the list view threshold
+ */
+export function isThresholdError(error: any) {
+  return /SPQueryThrottledException|-2147024860/.test(
+    (error && error.message) || ''
+  );
+}
+
+/**
+ * Create an async iterator from a function returning the next page.
+ * Iteration stops once getNext resolves to undefined.
+ */
+export function createPageIterator<I>(
+  getNext: () => Promise<I[]>
+): AsyncIterableIterator<I[]> {
+  const iterator: AsyncIterableIterator<I[]> = {
+    next: () =>
+      getNext().then(value =>
+        value === undefined
+          ? { done: true, value: undefined }
+          : { done: false, value }
+      ),
+    [Symbol.asyncIterator]: () => iterator
+  };
+  return iterator;
+}
+
+/**
+ * Read all remaining pages of an iterator into one array
+ */
+export function collectPages<I>(
+  iterator: AsyncIterator<I[]>,
+  collected: I[] = []
+): Promise<I[]> {
+  return iterator
+    .next()
+    .then(({ done, value }) =>
+      done ? collected : collectPages(iterator, collected.concat(value))
+    );
+}
@@ -0,0 +1,210 @@
+import {
+  IHarEntry,
+  IHarFixture,
+  IHarHeader,
+  IRecorder,
+  IRequestInfo,
+  IResponse,
+  RecorderMode,
+  Transport
+} from './interfaces';
+import { SPFetcherError } from './SPFetcher.errors';
+
+const REDACTED = 'REDACTED';
+
+/**
+ * Headers holding credentials. Their values are never recorded.
+ */
+const SECRET_HEADERS = /^(authorization|cookie|set-cookie|x-requestdigest)$/i;
+
+function toHarHeaders(headers: HeadersInit): IHarHeader[] {
+  const result: IHarHeader[] = [];
+  if (headers)
+    new Headers(headers).forEach((value, name) =>
+      result.push({
+        name,
+        value: SECRET_HEADERS.test(name) ? REDACTED : value
+      })
+    );
+  return result;
+}
+
+function getHeader(headers: IHarHeader[], name: string) {
+  const header = headers.find(
+    test => test.name.toLowerCase() === name.toLowerCase()
+  );
+  return header ? header.value : '';
+}
+
+/**
+ * Remove form digests from response bodies
+ */
+function redactBody(text: string) {
+  return text.replace(/("FormDigestValue"\s*:\s*")[^"]*/g, `$1${REDACTED}`);
+}
+
+/**
+ * Key used to match a request with recorded ones.
+ * Batch and changeset boundaries are random, so they are ignored.
+ */
+function getKey(method: string, url: string, body?: string) {
+  return [
+    method.toUpperCase(),
+    url,
+    `${body || ''}`.replace(/(batch|changeset)_[0-9a-f-]{36}/gi, '$1')
+  ].join(' ');
+}
+
+/**
+ * Records requests and responses to a HAR fixture, or replays them.
+ * Identical requests are replayed in the order they were recorded. Requests
+ * that were never recorded are rejected.
+ *
+ * @example
+ * // Record against a dev tenant
+ * const recorder = new SPRecorder('record');
+ * Fetcher.initialize(this.context, { recorder });
+ * // ...
+ * console.log(JSON.stringify(recorder));
+ *
+ * // Replay offline
+ * const recorder = new SPRecorder('replay', fixture);
+ * Fetcher.initialize(
+ *   createTestContext(recorder.transport, { siteUrl: 'https://contoso.sharepoint.com/sites/dev' }),
+ *   { recorder, transport: recorder.transport }
+ * );
+ */
+export class SPRecorder implements IRecorder {
+  public mode: RecorderMode;
+  private entries: IHarEntry[];
+  private served: { [key: string]: number };
+
+  constructor(mode: RecorderMode = 'record', fixture?: IHarFixture) {
+    this.mode = mode;
+    this.entries = fixture ? fixture.log.entries.slice() : [];
+    this.served = {};
+  }
+
+  public handle(
+    info: IRequestInfo,
+    request: () => Promise<IResponse>
+  ): Promise<IResponse> {
+    return this.mode === 'replay'
+      ? this.replay(info)
+      : this.record(info, request);
+  }
+
+  /**
+   * Serve recorded responses. Use it as the transport of a fake context.
+   */
+  public transport: Transport = (url: string, init: RequestInit = {}) =>
+    this.replay({
+      url,
+      method: init.method || 'GET',
+      body: init.body,
+      headers: init.headers
+    });
+
+  /**
+   * Get the recorded traffic as a HAR fixture
+   */
+  public toJSON(): IHarFixture {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'spfetcherbase', version: '1' },
+        entries: this.entries.filter(entry => entry.response)
+      }
+    };
+  }
+
+  /**
+   * Forget all recorded traffic
+   */
+  public clear() {
+    this.entries = [];
+    this.served = {};
+  }
+
+  private record(info: IRequestInfo, request: () => Promise<IResponse>) {
+    const started = Date.now();
+    const headers = toHarHeaders(info.headers);
+    const entry: IHarEntry = {
+      startedDateTime: new Date(started).toISOString(),
+      time: 0,
+      request: {
+        method: info.method.toUpperCase(),
+        url: info.url,
+        headers,
+        postData:
+          typeof info.body === 'string'
+            ? {
+                mimeType: getHeader(headers, 'content-type'),
+                text: info.body
+              }
+            : undefined
+      },
+      response: undefined
+    };
+    this.entries.push(entry);
+    return request().then(
+      response =>
+        (response.clone() as IResponse & { text(): Promise<string> })
+          .text()
+          .then(text => {
+            const responseHeaders = toHarHeaders(response.headers);
+            entry.time = Date.now() - started;
+            entry.response = {
+              status: response.status,
+              statusText: response.statusText,
+              headers: responseHeaders,
+              content: {
+                mimeType: getHeader(responseHeaders, 'content-type'),
+                text: redactBody(text)
+              }
+            };
+            return response;
+          }),
+      error => {
+        this.entries.splice(this.entries.indexOf(entry), 1);
+        throw error;
+      }
+    );
+  }
+
+  private replay(info: IRequestInfo): Promise<Response> {
+    const key = getKey(
+      info.method,
+      info.url,
+      typeof info.body === 'string' ? info.body : undefined
+    );
+    const matches = this.entries.filter(
+      entry =>
+        entry.response &&
+        getKey(
+          entry.request.method,
+          entry.request.url,
+          entry.request.postData && entry.request.postData.text
+        ) === key
+    );
+    if (!matches.length)
+      return Promise.reject(
+        new SPFetcherError(
+          `No recorded response for ${info.method.toUpperCase()} ${info.url}`,
+          { url: info.url, code: 'UnmatchedRequest' }
+        )
+      );
+    const idx = Math.min(this.served[key] || 0, matches.length - 1);
+    this.served[key] = idx + 1;
+    const { response } = matches[idx];
+    return Promise.resolve(
+      new Response(response.status === 204 ? null : response.content.text, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers.map(
+          ({ name, value }) => [name, value] as [string, string]
+        )
+      })
+    );
+  }
+}
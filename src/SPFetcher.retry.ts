@@ -0,0 +1,90 @@
+import { IResponse, IRetryPolicy } from './interfaces';
+
+export const defaultRetryPolicy: IRetryPolicy = {
+  maxAttempts: 5,
+  baseDelay: 500,
+  maxDelay: 30000,
+  jitter: 0.2,
+  statusCodes: [429, 503]
+};
+
+/**
+ * Status codes SharePoint throttles requests with
+ */
+const THROTTLED_STATUS_CODES = [429, 503];
+
+/**
+ * Resolve after delay (ms)
+ */
+export function wait(delay: number) {
+  return new Promise<void>(resolve => setTimeout(resolve, delay));
+}
+
+/**
+ * Read the Retry-After header of a response.
+ * Supports both delay-seconds and HTTP-date. Returns the delay in ms.
+ */
+export function getRetryAfter(response: Pick<IResponse, 'headers'>): number {
+  const header = response.headers && response.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Get the delay before the next attempt.
+ * Retry-After takes precedence over the exponential backoff.
+ *
+ * @param attempt - Number of attempts made so far (1 after the first request)
+ */
+export function getRetryDelay(
+  policy: IRetryPolicy,
+  attempt: number,
+  response?: IResponse
+) {
+  const retryAfter = response ? getRetryAfter(response) : undefined;
+  if (retryAfter !== undefined) return retryAfter;
+  const delay = Math.min(
+    policy.baseDelay * Math.pow(2, attempt - 1),
+    policy.maxDelay
+  );
+  return Math.round(delay * (1 + (Math.random() * 2 - 1) * policy.jitter));
+}
+
+/**
+ * Check whether the response should be retried under the given policy
+ */
+export function isRetryable(policy: IRetryPolicy, response: IResponse) {
+  return policy.statusCodes.indexOf(response.status) !== -1;
+}
+
+/**
+ * Send a request, and send it again while the response is throttled.
+ * The last response is returned when all attempts are spent.
+ *
+ * @param request - Called once per attempt
+ * @param onRetry - Called before waiting for the next attempt
+ * @param onThrottled - Called for every throttled response (429/503), whether
+ * it is retried or not
+ */
+export function withRetry<R extends IResponse>(
+  request: () => Promise<R>,
+  policy: IRetryPolicy,
+  onRetry?: (attempt: number, delay: number, response: R) => void,
+  onThrottled?: (response: R) => void,
+  attempt: number = 1
+): Promise<R> {
+  return request().then(response => {
+    if (onThrottled && THROTTLED_STATUS_CODES.indexOf(response.status) !== -1)
+      onThrottled(response);
+    if (!(attempt < policy.maxAttempts && isRetryable(policy, response)))
+      return response;
+    const delay = getRetryDelay(policy, attempt, response);
+    if (onRetry) onRetry(attempt, delay, response);
+    return wait(delay).then(() =>
+      withRetry(request, policy, onRetry, onThrottled, attempt + 1)
+    );
+  });
+}
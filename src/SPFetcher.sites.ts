@@ -0,0 +1,51 @@
+/**
+ * Get the url of the root of the web application a site belongs to.
+ * Works for every SharePoint Online environment (commercial, GCC High,
+ * China, vanity domains) and for on-prem farms.
+ *
+ * @param serverRelativeUrl - Server relative url of the site, if known
+ *
+ * @example
+ * getBaseUrl('https://contoso.sharepoint.us/sites/hr', '/sites/hr'); // 'https://contoso.sharepoint.us'
+ */
+export function getBaseUrl(absoluteUrl: string, serverRelativeUrl?: string) {
+  const url = `${absoluteUrl}`.replace(/\/+$/, '');
+  const path = `${serverRelativeUrl || ''}`.replace(/\/+$/, '');
+  if (path && url.toLowerCase().endsWith(path.toLowerCase()))
+    return url.slice(0, url.length - path.length);
+  const match = /^https?:\/\/[^/]+/i.exec(url);
+  return match ? match[0] : url;
+}
+
+/**
+ * Check whether value is an absolute or server relative url
+ */
+export function isSiteUrl(value: string) {
+  return /^(https?:\/\/[^/\s]+)?(\/[^\s]*)?$/i.test(`${value}`) && !!value;
+}
+
+/**
+ * Make a server relative url absolute
+ */
+export function toAbsoluteUrl(url: string, baseUrl: string) {
+  return (url.startsWith('/') ? `${baseUrl}${url}` : url).replace(/\/+$/, '');
+}
+
+/**
+ * Resolve a key in sites, an alias or an url to the absolute url of a site
+ *
+ * @param aliases - Alternative names, pointing to keys in sites or to urls
+ * @returns undefined if site is neither
+ */
+export function resolveSite(
+  site: string,
+  sites: { [key: string]: string },
+  aliases: { [alias: string]: string },
+  seen: string[] = []
+): string {
+  if (seen.indexOf(site) !== -1) return undefined;
+  if (sites[site]) return toAbsoluteUrl(sites[site], sites.base || '');
+  if (aliases[site])
+    return resolveSite(aliases[site], sites, aliases, seen.concat(site));
+  return isSiteUrl(site) ? toAbsoluteUrl(site, sites.base || '') : undefined;
+}
@@ -0,0 +1,311 @@
+import { ITerm, ITermLabel, ITermNode } from './interfaces';
+import { escapeXml } from './SPFetcher.caml';
+
+const TAXONOMY_SESSION_TYPE_ID = '{981cbc68-9edc-4f8d-872f-71146fcbb84f}';
+const REQUEST_CONTEXT_TYPE_ID = '{3747adcd-a3c3-41b9-bfab-4a64dd2f1e0a}';
+
+/**
+ * Id of the object path of the term store in requests built with
+ * getTermStorePaths
+ */
+export const TERM_STORE_PATH = 2;
+
+/**
+ * Id of the object path of the term in requests built with getTermPath
+ */
+export const TERM_PATH = 3;
+
+/**
+ * Properties read for every term
+ */
+export const termProperties = [
+  'IsRoot',
+  'Labels',
+  'TermsCount',
+  'CustomSortOrder',
+  'Id',
+  'Name',
+  'PathOfTerm',
+  'Parent',
+  'LocalCustomProperties',
+  'CustomProperties',
+  'IsDeprecated',
+  'IsAvailableForTagging'
+];
+
+/**
+ * Properties read for every term group
+ */
+export const termGroupProperties = [
+  'Id',
+  'Name',
+  'Description',
+  'IsSiteCollectionGroup',
+  'IsSystemGroup'
+];
+
+/**
+ * Properties read for every termset
+ */
+export const termSetProperties = [
+  'Id',
+  'Name',
+  'Description',
+  'IsOpenForTermCreation',
+  'CustomSortOrder'
+];
+
+/**
+ * A parameter of a method in a ProcessQuery request
+ */
+export function param(
+  type: 'Guid' | 'String' | 'Int32' | 'Boolean',
+  value: any
+) {
+  return `<Parameter Type="${type}">${escapeXml(`${value}`)}</Parameter>`;
+}
+
+/**
+ * A parameter that passes the object at an object path
+ */
+export function objectParam(pathId: number) {
+  return `<Parameter ObjectPathId="${pathId}" />`;
+}
+
+/**
+ * An object path that calls a method of its parent
+ */
+export function methodPath(
+  id: number,
+  parentId: number,
+  name: string,
+  params: string[] = []
+) {
+  return `<Method Id="${id}" ParentId="${parentId}" Name="${name}"><Parameters>${params.join(
+    ''
+  )}</Parameters></Method>`;
+}
+
+/**
+ * An object path that reads a property of its parent
+ */
+export function propertyPath(id: number, parentId: number, name: string) {
+  return `<Property Id="${id}" ParentId="${parentId}" Name="${name}" />`;
+}
+
+function properties(names: string[]) {
+  return `<Properties>${names
+    .map(name => `<Property Name="${name}" SelectAll="true" />`)
+    .join('')}</Properties>`;
+}
+
+/**
+ * An action that calls a method of an object
+ */
+export function methodAction(
+  id: number,
+  pathId: number,
+  name: string,
+  params: string[] = []
+) {
+  return `<Method Name="${name}" Id="${id}" ObjectPathId="${pathId}"><Parameters>${params.join(
+    ''
+  )}</Parameters></Method>`;
+}
+
+/**
+ * An action that sets a property of an object
+ */
+export function setPropertyAction(
+  id: number,
+  pathId: number,
+  name: string,
+  value: string
+) {
+  return `<SetProperty Id="${id}" ObjectPathId="${pathId}" Name="${name}">${value}</SetProperty>`;
+}
+
+/**
+ * Query the properties of an object
+ */
+export function queryObject(id: number, pathId: number, names: string[]) {
+  return `<Query Id="${id}" ObjectPathId="${pathId}"><Query SelectAllProperties="false">${properties(
+    names
+  )}</Query></Query>`;
+}
+
+/**
+ * Query the properties of the items of a collection
+ */
+export function queryChildren(id: number, pathId: number, names: string[]) {
+  return `<Query Id="${id}" ObjectPathId="${pathId}"><Query SelectAllProperties="false"><Properties /></Query><ChildItemQuery SelectAllProperties="false">${properties(
+    names
+  )}</ChildItemQuery></Query>`;
+}
+
+/**
+ * Object paths of the taxonomy session (0) and its term stores (1)
+ */
+export function getSessionPaths() {
+  return [
+    `<StaticMethod Id="0" Name="GetTaxonomySession" TypeId="${TAXONOMY_SESSION_TYPE_ID}" />`,
+    propertyPath(1, 0, 'TermStores')
+  ].join('');
+}
+
+/**
+ * Object paths of the taxonomy session (0), its term stores (1) and a term
+ * store (2). Without id, the default keywords term store is used.
+ */
+export function getTermStorePaths(store?: string) {
+  return [
+    getSessionPaths(),
+    store
+      ? methodPath(TERM_STORE_PATH, 1, 'GetById', [param('Guid', store)])
+      : methodPath(TERM_STORE_PATH, 0, 'GetDefaultKeywordsTermStore')
+  ].join('');
+}
+
+/**
+ * Object path of a term (3) in the term store of getTermStorePaths
+ */
+export function getTermPath(id: string) {
+  return methodPath(TERM_PATH, TERM_STORE_PATH, 'GetTerm', [param('Guid', id)]);
+}
+
+/**
+ * Object path of the current site collection
+ */
+export function currentSitePath(id: number) {
+  return [
+    `<StaticProperty Id="${id}" TypeId="${REQUEST_CONTEXT_TYPE_ID}" Name="Current" />`,
+    propertyPath(id + 1, id, 'Site')
+  ].join('');
+}
+
+/**
+ * Build the body of a ProcessQuery request. Every object path is
+ * instantiated by an ObjectPath action with id 100 + its id, so ids of
+ * other actions must be lower than 100.
+ */
+export function createProcessQuery(actions: string[], paths: string[]) {
+  const ids = (paths.join('').match(/<\w+ Id="\d+"/g) || []).map(tag =>
+    tag.replace(/\D/g, '')
+  );
+  return `<Request xmlns="http://schemas.microsoft.com/sharepoint/clientquery/2009" SchemaVersion="15.0.0.0" LibraryVersion="16.0.0.0" ApplicationName="Javascript Library"><Actions>${ids
+    .map(id => `<ObjectPath Id="${100 + Number(id)}" ObjectPathId="${id}" />`)
+    .concat(actions)
+    .join('')}</Actions><ObjectPaths>${paths.join('')}</ObjectPaths></Request>`;
+}
+
+/**
+ * Get the result of an action from a ProcessQuery response
+ */
+export function getQueryResult(response: any[], id: number) {
+  for (let idx = 1; idx < response.length - 1; idx += 2)
+    if (response[idx] === id) return response[idx + 1];
+  return undefined;
+}
+
+/**
+ * Turn "/Guid(...)/" into the guid
+ */
+export function parseGuid(value: string) {
+  return value && `${value}`.replace(/^.*Guid\((.*)\)(.*)/g, '$1');
+}
+
+/**
+ * Get the items of a collection in a ProcessQuery response, with guids parsed
+ */
+export function getQueryItems<R extends { Id: string }>(
+  response: any[],
+  id: number
+): R[] {
+  const result = getQueryResult(response, id);
+  return ((result && result._Child_Items_) || []).map((item: R) => ({
+    ...item,
+    Id: parseGuid(item.Id)
+  }));
+}
+
+/**
+ * Parse the guids of a term in a ProcessQuery response
+ */
+export function parseTerm(term: ITerm): ITerm {
+  return {
+    ...term,
+    Id: parseGuid(term.Id),
+    Parent: term.Parent && { ...term.Parent, Id: parseGuid(term.Parent.Id) }
+  };
+}
+
+/**
+ * Labels of a term by language, with the default label of each language first
+ */
+export function getTermLabels(term: ITerm): ITermLabel[] {
+  return ((term.Labels && term.Labels._Child_Items_) || [])
+    .map(label => ({
+      language: label.Language,
+      value: label.Value,
+      isDefault: label.IsDefaultForLanguage
+    }))
+    .sort(
+      (a, b) =>
+        a.language - b.language || Number(b.isDefault) - Number(a.isDefault)
+    );
+}
+
+function sortTerms(nodes: ITermNode[], order?: string) {
+  const ids = order ? order.split(':').map(id => id.toLowerCase()) : [];
+  const position = (node: ITermNode) => {
+    const idx = ids.indexOf(node.id.toLowerCase());
+    return idx === -1 ? ids.length : idx;
+  };
+  nodes.sort(
+    (a, b) => position(a) - position(b) || a.name.localeCompare(b.name)
+  );
+  nodes.forEach(node => sortTerms(node.children, node.term.CustomSortOrder));
+  return nodes;
+}
+
+/**
+ * Build a tree from the flat terms of a termset, as returned by
+ * getTermsetById. Terms follow the custom sort order of their parent, or
+ * are sorted by name.
+ *
+ * @param order - Custom sort order of the termset
+ */
+export function buildTermTree(terms: ITerm[], order?: string): ITermNode[] {
+  const nodes = terms.map(
+    (term): ITermNode => ({
+      id: term.Id,
+      name: term.Name,
+      path: term.PathOfTerm,
+      labels: getTermLabels(term),
+      isDeprecated: term.IsDeprecated,
+      isAvailableForTagging: term.IsAvailableForTagging,
+      properties: {
+        ...(term.CustomProperties || {}),
+        ...(term.LocalCustomProperties || {})
+      },
+      children: [],
+      term
+    })
+  );
+  const byId: { [id: string]: ITermNode } = {};
+  const byPath: { [path: string]: ITermNode } = {};
+  nodes.forEach(node => {
+    byId[node.id.toLowerCase()] = node;
+    byPath[node.path] = node;
+  });
+  const roots: ITermNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.term.IsRoot
+      ? undefined
+      : node.term.Parent
+      ? byId[parseGuid(node.term.Parent.Id).toLowerCase()]
+      : byPath[node.path.split(';').slice(0, -1).join(';')];
+    (parent ? parent.children : roots).push(node);
+  });
+  return sortTerms(roots, order);
+}
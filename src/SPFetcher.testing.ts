@@ -0,0 +1,81 @@
+import {
+  ISPHttpClientOptions,
+  SPHttpClientConfiguration
+} from '@microsoft/sp-http';
+import {
+  BaseComponentContext,
+  ITestContextOptions,
+  Transport
+} from './interfaces';
+
+type TestRequest = (
+  url: string,
+  configuration: SPHttpClientConfiguration,
+  options?: ISPHttpClientOptions
+) => Promise<
+  Pick<
+    Response,
+    'ok' | 'status' | 'statusText' | 'headers' | 'json' | 'text' | 'arrayBuffer'
+  >
+>;
+
+/**
+ * The members of a component context that the fetcher reads
+ */
+interface ITestContext {
+  pageContext: {
+    site: { absoluteUrl: string; serverRelativeUrl: string };
+    web: { absoluteUrl: string; serverRelativeUrl: string; language: number };
+    list?: { id: { toString(): string } };
+    user: { displayName: string; email: string; loginName: string };
+  };
+  spHttpClient: { get: TestRequest; post: TestRequest; fetch: TestRequest };
+}
+
+/**
+ * Build a fake component context for running a fetcher outside SharePoint.
+ * Its spHttpClient sends every request through transport.
+ *
+ * @example
+ * const emulator = new SPEmulator([{ url: 'https://contoso.sharepoint.com/sites/dev' }]);
+ * Fetcher.initialize(
+ *   createTestContext(emulator.transport, { siteUrl: 'https://contoso.sharepoint.com/sites/dev' }),
+ *   { transport: emulator.transport }
+ * );
+ */
+export function createTestContext(
+  transport: Transport,
+  options: ITestContextOptions
+): BaseComponentContext {
+  const webUrl = (options.webUrl || options.siteUrl).replace(/\/+$/, '');
+  const siteUrl = options.siteUrl.replace(/\/+$/, '');
+  const request = (method: string): TestRequest => (url, _config, init) =>
+    transport(url, { ...init, method });
+  const context: ITestContext = {
+    pageContext: {
+      site: {
+        absoluteUrl: siteUrl,
+        serverRelativeUrl: siteUrl.replace(/^https?:\/\/[^/]+/, '') || '/'
+      },
+      web: {
+        absoluteUrl: webUrl,
+        serverRelativeUrl: webUrl.replace(/^https?:\/\/[^/]+/, '') || '/',
+        language: 1033
+      },
+      list: options.listId
+        ? { id: { toString: () => options.listId } }
+        : undefined,
+      user: options.user || {
+        displayName: 'Test User',
+        email: 'test.user@contoso.com',
+        loginName: 'i:0#.f|membership|test.user@contoso.com'
+      }
+    },
+    spHttpClient: {
+      get: request('GET'),
+      post: request('POST'),
+      fetch: (url, _config, init) => transport(url, init)
+    }
+  };
+  return context as BaseComponentContext;
+}
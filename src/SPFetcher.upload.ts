@@ -0,0 +1,47 @@
+/**
+ * Default size of upload chunks (bytes)
+ */
+export const DEFAULT_CHUNK_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Create a random guid, e.g. the id of an upload session
+ */
+export function createGuid() {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Get the name to try after name is taken
+ *
+ * @example
+ * getAlternativeName('report.docx', 2); // 'report (2).docx'
+ */
+export function getAlternativeName(name: string, attempt: number) {
+  const match = /^(.*?)(\.[^.]*)?$/.exec(name);
+  return `${match[1]} (${attempt})${match[2] || ''}`;
+}
+
+/**
+ * Get the offsets at which chunks of a file start
+ */
+export function getChunkOffsets(size: number, chunkSize: number) {
+  const offsets: number[] = [];
+  for (let offset = 0; offset < size; offset += chunkSize) offsets.push(offset);
+  return offsets;
+}
+
+/**
+ * Read the new file offset from the response of an upload session request
+ */
+export function getUploadOffset(body: any): number {
+  const value =
+    body && body.value !== undefined
+      ? body.value
+      : body && body.d
+      ? body.d[Object.keys(body.d)[0]]
+      : undefined;
+  return Number(value);
+}
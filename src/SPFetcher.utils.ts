@@ -3,47 +3,231 @@ import {
   SPHttpClient,
   SPHttpClientConfiguration
 } from '@microsoft/sp-http';
-import { IField, IList, sp } from '@pnp/sp/presets/all';
+import {
+  Field,
+  IField,
+  IFileInfo,
+  IFolderInfo,
+  IList,
+  IWeb,
+  List,
+  PagedItemCollection,
+  Profiles,
+  RenderListDataOptions
+} from '@pnp/sp/presets/all';
 import {
   FieldLookup,
+  ICopyJobInfo,
+  ICopyOptions,
+  ICopyResult,
+  IDownloadOptions,
+  IDownloadResult,
+  ISelectedItem,
+  ISelectionOptions,
+  ITaxonomyOptions,
+  ITermGroup,
+  ITermNode,
+  ITermSetInfo,
+  ITermStore,
+  ITermTarget,
   IListField,
+  IPagingProgress,
+  IRequestOptions,
   ItemType,
+  IListDataPage,
+  IListRegistration,
   ITerm,
-  SPFetcherStructure
+  IUploadOptions,
+  SPFetcherStructure,
+  SPListRegistry,
+  TaxonomyField
 } from './interfaces';
 import { SPFetcherInitializer } from './SPFetcher.initializer';
+import {
+  collectPages,
+  createPageIterator,
+  isThresholdError,
+  LIST_VIEW_THRESHOLD
+} from './SPFetcher.paging';
+import {
+  createFilter,
+  quote,
+  quoteUrl,
+  SPFilter,
+  SPFilterInput
+} from './SPFetcher.filter';
+import {
+  createError,
+  errorFromResponse,
+  parseErrorBody,
+  SPAccessDeniedError,
+  SPFetcherError,
+  SPNotFoundError
+} from './SPFetcher.errors';
+import { abortable } from './SPFetcher.abort';
+import { SPListHandle } from './SPFetcher.lists';
+import {
+  getReadQuery,
+  normalizeItem,
+  normalizeRow,
+  serializeItem
+} from './SPFetcher.values';
+import { createViewXml, ICamlQuery } from './SPFetcher.caml';
+import {
+  createGuid,
+  DEFAULT_CHUNK_SIZE,
+  getAlternativeName,
+  getChunkOffsets,
+  getUploadOffset
+} from './SPFetcher.upload';
+import {
+  DEFAULT_POLL_INTERVAL,
+  getCopyResults,
+  getODataValue,
+  ICopyLog,
+  nameConflictBehaviors,
+  parseCopyLogs
+} from './SPFetcher.copy';
+import { wait } from './SPFetcher.retry';
+import { ZipWriter } from './SPFetcher.zip';
+import { getUrlScope } from './SPFetcher.cache';
+import {
+  buildTermTree,
+  createProcessQuery,
+  currentSitePath,
+  getQueryItems,
+  getQueryResult,
+  getSessionPaths,
+  getTermPath,
+  getTermStorePaths,
+  methodAction,
+  methodPath,
+  objectParam,
+  param,
+  parseGuid,
+  parseTerm,
+  propertyPath,
+  queryChildren,
+  queryObject,
+  setPropertyAction,
+  termGroupProperties,
+  termProperties,
+  termSetProperties,
+  TERM_PATH,
+  TERM_STORE_PATH
+} from './SPFetcher.taxonomy';
+
+/**
+ * Reads items of a list as normalized items
+ */
+interface IItemReader {
+  select: string[];
+  expand: string[];
+  normalize: (items: any[]) => any[];
+  normalizeRows: (rows: any[]) => any[];
+}
 
 export class SPFetcherUtils<
-  T extends SPFetcherStructure
+  T extends SPFetcherStructure,
+  L extends SPListRegistry = SPListRegistry
 > extends SPFetcherInitializer<T> {
+  private registry: { [key: string]: IListRegistration };
+
+  // Constructor
+  constructor() {
+    super();
+    this.registry = {};
+  }
+
   /**
-   * Properties
+   * Register a list under key, so that it can be accessed with `list(key)`.
+   * Its items are typed by L[key], e.g. an interface from getProjectTypings.
+   *
+   * @example
+   * class MyFetcherClass extends SPFetcherBase<IStructure, { Tasks: ITasksItem }> {
+   *   constructor() {
+   *     super();
+   *     this.registerList('Tasks', { site: 'hr', title: 'Tasks' });
+   *   }
+   * }
    */
-  private contentTypes: {
-    [key: string]: {
-      callbacks: ((arg: string[]) => void)[];
-      StringIds: string[];
-    };
-  };
+  public registerList<K extends Extract<keyof L, string>>(
+    key: K,
+    list: IListRegistration
+  ) {
+    if (!list || !(list.title || list.id))
+      throw new SPFetcherError(`List ${key} needs a title or an id`, {
+        site: list && list.site,
+        code: 'InvalidList'
+      });
+    this.registry[key] = { ...list };
+  }
+
+  /**
+   * Get a typed handle to a registered list.
+   * Throws an SPFetcherError with code `UnknownList` if key was never registered.
+   */
+  public list<K extends Extract<keyof L, string>>(key: K): SPListHandle<L[K]> {
+    const list = this.registry[key];
+    if (!list)
+      throw new SPFetcherError(`Unknown list: ${key}`, {
+        code: 'UnknownList'
+      });
+    return new SPListHandle<L[K]>(
+      signal =>
+        list.id
+          ? this.getListById(list.id, list.site, signal)
+          : this.getListByTitle(list.title, list.site, signal),
+      (resolved, signal, request) =>
+        this.withSignal(List(resolved), signal, request),
+      this,
+      this.fail(list.site)
+    );
+  }
 
   /**
    * Utility method: Perform a fetch-request using the spHttpClient
+   * Rejects with an SPFetcherError if the response is not ok.
+   *
+   * @param request - Per-call overrides, e.g. the retry policy or an AbortSignal
    */
   public fetch(
     url: string,
     options?: ISPHttpClientOptions,
     config: SPHttpClientConfiguration = SPHttpClient.configurations.v1,
-    method: 'get' | 'post' = 'get'
-  ) {
-    return this.ready().then(() =>
-      this.context.spHttpClient[method](
-        url.startsWith('https://')
-          ? url
-          : `${this.urls.base}/${url.replace(/^\/+/g, '')}`,
-        config,
-        options
+    method: 'get' | 'post' = 'get',
+    request?: IRequestOptions
+  ) {
+    const signal = request ? request.signal : undefined;
+    return abortable(this.ready(), signal).then(() => {
+      const target = /^https?:\/\//i.test(url)
+        ? url
+        : `${this.urls.base}/${url.replace(/^\/+/g, '')}`;
+      const site = this.getSiteKey(target);
+      return this.send(
+        {
+          url: target,
+          method,
+          body: options && options.body,
+          headers: options && options.headers
+        },
+        request,
+        () =>
+          this.context.spHttpClient[method](
+            target,
+            config,
+            signal ? { ...options, signal } : options
+          )
       )
-    );
+        .then(response =>
+          response.ok
+            ? response
+            : errorFromResponse(response, { url: target, site }).then(error =>
+                Promise.reject(error)
+              )
+        )
+        .catch(this.fail(site, target));
+    });
   }
 
   /**
@@ -52,9 +236,10 @@ export class SPFetcherUtils<
   public get(
     url: string,
     options?: ISPHttpClientOptions,
-    config: SPHttpClientConfiguration = SPHttpClient.configurations.v1
+    config: SPHttpClientConfiguration = SPHttpClient.configurations.v1,
+    request?: IRequestOptions
   ) {
-    return this.fetch(url, options, config, 'get');
+    return this.fetch(url, options, config, 'get', request);
   }
 
   /**
@@ -63,24 +248,27 @@ export class SPFetcherUtils<
   public post(
     url: string,
     options?: ISPHttpClientOptions,
-    config: SPHttpClientConfiguration = SPHttpClient.configurations.v1
+    config: SPHttpClientConfiguration = SPHttpClient.configurations.v1,
+    request?: IRequestOptions
   ) {
-    return this.fetch(url, options, config, 'post');
+    return this.fetch(url, options, config, 'post', request);
   }
 
   /**
    * Utility method: Search for users
    */
-  public searchUsers(query: string, limit: number = 5) {
-    return this.ready().then(() =>
-      sp.profiles.clientPeoplePickerSearchUser({
-        AllowEmailAddresses: true,
-        AllowMultipleEntities: false,
-        AllUrlZones: false,
-        MaximumEntitySuggestions: limit,
-        PrincipalType: 1,
-        QueryString: query
-      })
+  public searchUsers(query: string, limit: number = 5, signal?: AbortSignal) {
+    return this.withWeb('default', signal, web =>
+      Profiles(web)
+        .clientPeoplePickerSearchUser({
+          AllowEmailAddresses: true,
+          AllowMultipleEntities: false,
+          AllUrlZones: false,
+          MaximumEntitySuggestions: limit,
+          PrincipalType: 1,
+          QueryString: query
+        })
+        .catch(this.fail())
     );
   }
 
@@ -88,10 +276,22 @@ export class SPFetcherUtils<
    * Utility method: Get all properties
    */
   public getProperties(
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ): Promise<any> {
-    return this.Web(site).then(web =>
-      web.select('AllProperties').expand('AllProperties').get()
+    return this.withWeb(site, signal, web =>
+      this.cached(
+        'getProperties',
+        web.toUrl(),
+        () =>
+          web
+            .select('AllProperties')
+            .expand('AllProperties')
+            .get()
+            .catch(this.fail(site)),
+        undefined,
+        signal
+      )
     );
   }
 
@@ -101,9 +301,12 @@ export class SPFetcherUtils<
    */
   public getStorageEntity(
     entity: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.Web(site).then(web => web.getStorageEntity(entity));
+    return this.withWeb(site, signal, web =>
+      web.getStorageEntity(entity).catch(this.fail(site))
+    );
   }
 
   /**
@@ -111,9 +314,12 @@ export class SPFetcherUtils<
    */
   public getListByTitle(
     title: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.Web(site).then(web => web.lists.getByTitle(title));
+    return abortable(this.Web(site), signal).then(web =>
+      web.lists.getByTitle(title)
+    );
   }
 
   /**
@@ -121,16 +327,29 @@ export class SPFetcherUtils<
    */
   public getListById(
     id: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.Web(site).then(web => web.lists.getById(id));
+    return abortable(this.Web(site), signal).then(web => web.lists.getById(id));
   }
 
   /**
    * Utility method: Get fields of a list
    */
-  public getListFields(list: IList): Promise<IListField[]> {
-    return list.fields();
+  public getListFields(
+    list: IList,
+    signal?: AbortSignal
+  ): Promise<IListField[]> {
+    return this.cached(
+      'getListFields',
+      list.toUrl(),
+      () =>
+        this.withSignal(list.fields, signal, fields => fields.get())
+          .then(fields => fields as IListField[])
+          .catch(this.fail(this.getSiteKey(list.toUrl()))),
+      getUrlScope(list.toUrl()).list || list.toUrl(),
+      signal
+    );
   }
 
   /**
@@ -138,9 +357,12 @@ export class SPFetcherUtils<
    */
   public getFieldsByListId(
     id: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.getListById(id, site).then(list => this.getListFields(list));
+    return this.getListById(id, site, signal).then(list =>
+      this.getListFields(list, signal)
+    );
   }
 
   /**
@@ -148,10 +370,11 @@ export class SPFetcherUtils<
    */
   public getFieldsByListTitle(
     title: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.getListByTitle(title, site).then(list =>
-      this.getListFields(list)
+    return this.getListByTitle(title, site, signal).then(list =>
+      this.getListFields(list, signal)
     );
   }
 
@@ -160,9 +383,12 @@ export class SPFetcherUtils<
    */
   public getFieldById(
     id: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.Web(site).then(web => web.fields.getById(id));
+    return abortable(this.Web(site), signal).then(web =>
+      web.fields.getById(id)
+    );
   }
 
   /**
@@ -170,9 +396,12 @@ export class SPFetcherUtils<
    */
   public getFieldByTitle(
     title: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.Web(site).then(web => web.fields.getByTitle(title));
+    return abortable(this.Web(site), signal).then(web =>
+      web.fields.getByTitle(title)
+    );
   }
 
   /**
@@ -180,9 +409,10 @@ export class SPFetcherUtils<
    */
   public getFieldByInternalNameOrTitle(
     title: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.Web(site).then(web =>
+    return abortable(this.Web(site), signal).then(web =>
       web.fields.getByInternalNameOrTitle(title)
     );
   }
@@ -190,8 +420,12 @@ export class SPFetcherUtils<
   /**
    * Utility method: Get reference to the relevant field's lookup list
    */
-  public getFieldLookup(field: IField) {
-    return field.get().then((r: FieldLookup) => this.getListById(r.LookupList));
+  public getFieldLookup(field: IField, signal?: AbortSignal) {
+    return this.withSignal(Field(field), signal, query => query.get())
+      .catch(this.fail(this.getSiteKey(field.toUrl())))
+      .then((r: FieldLookup) =>
+        this.getListById(r.LookupList, undefined, signal)
+      );
   }
 
   /**
@@ -199,10 +433,11 @@ export class SPFetcherUtils<
    */
   public getLookupByFieldId(
     id: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.getFieldById(id, site).then(field =>
-      this.getFieldLookup(field)
+    return this.getFieldById(id, site, signal).then(field =>
+      this.getFieldLookup(field, signal)
     );
   }
 
@@ -211,86 +446,649 @@ export class SPFetcherUtils<
    */
   public getLookupByFieldTitle(
     title: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.getFieldByTitle(title, site).then(field =>
-      this.getFieldLookup(field)
+    return this.getFieldByTitle(title, site, signal).then(field =>
+      this.getFieldLookup(field, signal)
     );
   }
 
+  /**
+   * Helper method: Send a ProcessQuery request to the client.svc of site,
+   * and reject with an SPFetcherError if any of its actions failed
+   */
+  private processQuery(
+    body: string,
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    options: IRequestOptions = { readOnly: true }
+  ): Promise<any[]> {
+    return abortable(this.ready(), options.signal).then(() => {
+      const url = `${
+        site ? this.getSiteUrl(site) : this.sites.current
+      }/_vti_bin/client.svc/ProcessQuery`;
+      return this.post(
+        url,
+        {
+          headers: {
+            accept: 'application/json',
+            'content-type': 'application/xml'
+          },
+          body
+        },
+        undefined,
+        options
+      )
+        .then(r => r.json())
+        .then(r => {
+          const error = parseErrorBody(r);
+          if (error.code || error.message)
+            throw createError(error.message, {
+              ...error,
+              url,
+              site: site || 'current'
+            });
+          return r as any[];
+        })
+        .catch(this.fail(site || 'current', url));
+    });
+  }
+
   /**
    * Utility method: Get all fields of a taxonomy termset
+   *
+   * @param store - Id of the term store. Defaults to the default keywords term store.
    */
   public getTermsetById(
     id: string,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
-  ) {
-    return this.post(
-      `${
-        this.sites[site] || this.sites.current
-      }/_vti_bin/client.svc/ProcessQuery`,
-      {
-        headers: {
-          accept: 'application/json',
-          'content-type': 'application/xml'
-        },
-        body: `<Request xmlns="http://schemas.microsoft.com/sharepoint/clientquery/2009" SchemaVersion="15.0.0.0" LibraryVersion="16.0.0.0" ApplicationName="Javascript Library"><Actions><ObjectPath Id="1" ObjectPathId="0" /><ObjectIdentityQuery Id="2" ObjectPathId="0" /><ObjectPath Id="4" ObjectPathId="3" /><ObjectIdentityQuery Id="5" ObjectPathId="3" /><ObjectPath Id="7" ObjectPathId="6" /><ObjectIdentityQuery Id="8" ObjectPathId="6" /><ObjectPath Id="10" ObjectPathId="9" /><Query Id="11" ObjectPathId="6"><Query SelectAllProperties="true"><Properties /></Query></Query><Query Id="12" ObjectPathId="9"><Query SelectAllProperties="false"><Properties /></Query><ChildItemQuery SelectAllProperties="false"><Properties><Property Name="IsRoot" SelectAll="true" /><Property Name="Labels" SelectAll="true" /><Property Name="TermsCount" SelectAll="true" /><Property Name="CustomSortOrder" SelectAll="true" /><Property Name="Id" SelectAll="true" /><Property Name="Name" SelectAll="true" /><Property Name="PathOfTerm" SelectAll="true" /><Property Name="Parent" SelectAll="true" /><Property Name="LocalCustomProperties" SelectAll="true" /><Property Name="IsDeprecated" ScalarProperty="true" /><Property Name="IsAvailableForTagging" ScalarProperty="true" /></Properties></ChildItemQuery></Query></Actions><ObjectPaths><StaticMethod Id="0" Name="GetTaxonomySession" TypeId="{981cbc68-9edc-4f8d-872f-71146fcbb84f}" /><Method Id="3" ParentId="0" Name="GetDefaultKeywordsTermStore" /><Method Id="6" ParentId="3" Name="GetTermSet"><Parameters><Parameter Type="Guid">${id}</Parameter></Parameters></Method><Method Id="9" ParentId="6" Name="GetAllTerms" /></ObjectPaths></Request>`
-      }
-    )
-      .then(r => r.json())
-      .then(
-        r =>
-          r.filter(
-            (test: any) => test._ObjectType_ === 'SP.Taxonomy.TermCollection'
-          )[0]._Child_Items_ as ITerm[]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal,
+    store?: string
+  ): Promise<ITerm[]> {
+    return abortable(this.ready(), signal).then(() => {
+      const url = `${
+        site ? this.getSiteUrl(site) : this.sites.current
+      }/_vti_bin/client.svc/ProcessQuery`;
+      const termset = this.cached(
+        'getTermsetById',
+        url,
+        () =>
+          this.processQuery(
+            createProcessQuery(
+              [queryChildren(5, 4, termProperties)],
+              [
+                getTermStorePaths(store),
+                methodPath(3, TERM_STORE_PATH, 'GetTermSet', [
+                  param('Guid', id)
+                ]),
+                methodPath(4, 3, 'GetAllTerms')
+              ]
+            ),
+            site,
+            { readOnly: true, signal }
+          ).then(r => getQueryItems<ITerm>(r, 5).map(parseTerm)),
+        store ? `${store}|${id}` : id,
+        signal
+      );
+      return abortable(termset, signal);
+    });
+  }
+
+  /**
+   * Utility method: Get the term stores of the taxonomy session
+   */
+  public getTermStores(options: ITaxonomyOptions = {}): Promise<ITermStore[]> {
+    return this.processQuery(
+      createProcessQuery(
+        [
+          queryChildren(2, 1, [
+            'Id',
+            'Name',
+            'DefaultLanguage',
+            'Languages',
+            'IsOnline'
+          ])
+        ],
+        [getSessionPaths()]
+      ),
+      options.site,
+      { readOnly: true, signal: options.signal }
+    ).then(r => getQueryItems<ITermStore>(r, 2));
+  }
+
+  /**
+   * Utility method: Get the term groups of a term store, including the
+   * group of the current site collection
+   */
+  public getTermGroups(options: ITaxonomyOptions = {}): Promise<ITermGroup[]> {
+    return this.processQuery(
+      createProcessQuery(
+        [queryChildren(4, 3, termGroupProperties)],
+        [
+          getTermStorePaths(options.store),
+          propertyPath(3, TERM_STORE_PATH, 'Groups')
+        ]
+      ),
+      options.site,
+      { readOnly: true, signal: options.signal }
+    ).then(r => getQueryItems<ITermGroup>(r, 4));
+  }
+
+  /**
+   * Utility method: Get the term group of the current site collection
+   *
+   * @returns Undefined if the site collection has no group
+   */
+  public getSiteCollectionTermGroup(
+    options: ITaxonomyOptions = {}
+  ): Promise<ITermGroup> {
+    return this.processQuery(
+      createProcessQuery(
+        [queryObject(6, 5, termGroupProperties)],
+        [
+          getTermStorePaths(options.store),
+          currentSitePath(3),
+          methodPath(5, TERM_STORE_PATH, 'GetSiteCollectionGroup', [
+            objectParam(4),
+            param('Boolean', false)
+          ])
+        ]
+      ),
+      options.site,
+      { readOnly: true, signal: options.signal }
+    ).then(r => {
+      const group = getQueryResult(r, 6);
+      return group && group.Id
+        ? { ...group, Id: parseGuid(group.Id) }
+        : undefined;
+    });
+  }
+
+  /**
+   * Utility method: Get the termsets of a term group
+   */
+  public getTermsets(
+    group: string,
+    options: ITaxonomyOptions = {}
+  ): Promise<ITermSetInfo[]> {
+    return this.processQuery(
+      createProcessQuery(
+        [queryChildren(5, 4, termSetProperties)],
+        [
+          getTermStorePaths(options.store),
+          methodPath(3, TERM_STORE_PATH, 'GetGroup', [param('Guid', group)]),
+          propertyPath(4, 3, 'TermSets')
+        ]
+      ),
+      options.site,
+      { readOnly: true, signal: options.signal }
+    ).then(r => getQueryItems<ITermSetInfo>(r, 5));
+  }
+
+  /**
+   * Utility method: Find termsets by name in a term store
+   *
+   * @param lcid - Language of name
+   */
+  public getTermsetsByName(
+    name: string,
+    lcid: number = 1033,
+    options: ITaxonomyOptions = {}
+  ): Promise<ITermSetInfo[]> {
+    return this.processQuery(
+      createProcessQuery(
+        [queryChildren(4, 3, termSetProperties)],
+        [
+          getTermStorePaths(options.store),
+          methodPath(3, TERM_STORE_PATH, 'GetTermSetsByName', [
+            param('String', name),
+            param('Int32', lcid)
+          ])
+        ]
+      ),
+      options.site,
+      { readOnly: true, signal: options.signal }
+    ).then(r => getQueryItems<ITermSetInfo>(r, 4));
+  }
+
+  /**
+   * Utility method: Get all terms of the first termset named name
+   */
+  public getTermsetByName(
+    name: string,
+    lcid: number = 1033,
+    options: ITaxonomyOptions = {}
+  ): Promise<ITerm[]> {
+    return this.getTermsetsByName(name, lcid, options).then(termsets => {
+      if (!termsets.length)
+        throw new SPNotFoundError(`Could not find termset "${name}".`, {
+          status: 404,
+          site: options.site || 'current'
+        });
+      return this.getTermsetById(
+        termsets[0].Id,
+        options.site,
+        options.signal,
+        options.store
+      );
+    });
+  }
+
+  /**
+   * Utility method: Get the terms of a termset as a tree, see buildTermTree
+   *
+   * @example
+   * Fetcher.getTermTree(termsetId).then(tree =>
+   *   tree.map(node => `${node.name} (${node.children.length})`)
+   * );
+   */
+  public getTermTree(
+    id: string,
+    options: ITaxonomyOptions = {}
+  ): Promise<ITermNode[]> {
+    return Promise.all([
+      this.getTermsetById(id, options.site, options.signal, options.store),
+      this.processQuery(
+        createProcessQuery(
+          [queryObject(4, 3, ['CustomSortOrder'])],
+          [
+            getTermStorePaths(options.store),
+            methodPath(3, TERM_STORE_PATH, 'GetTermSet', [param('Guid', id)])
+          ]
+        ),
+        options.site,
+        { readOnly: true, signal: options.signal }
       )
-      .then(r => {
-        r.forEach(term => {
-          term.Id = term.Id.replace(/^.*Guid\((.*)\)(.*)/g, '$1');
-          if (term.Parent)
-            term.Parent.Id = term.Parent.Id.replace(
-              /^.*Guid\((.*)\)(.*)/g,
-              '$1'
-            );
+    ]).then(([terms, r]) =>
+      buildTermTree(terms, (getQueryResult(r, 4) || {}).CustomSortOrder)
+    );
+  }
+
+  /**
+   * Helper method: Change a term, commit the term store and read the term
+   *
+   * @param paths - Object paths after the term (3)
+   * @param term - Object path of the term to read afterwards
+   */
+  private writeTerm(
+    paths: string[],
+    actions: string[],
+    term: number,
+    options: ITaxonomyOptions
+  ): Promise<ITerm> {
+    return this.processQuery(
+      createProcessQuery(
+        actions.concat(
+          methodAction(90, TERM_STORE_PATH, 'CommitAll'),
+          queryObject(91, term, termProperties)
+        ),
+        [getTermStorePaths(options.store)].concat(paths)
+      ),
+      options.site,
+      { signal: options.signal }
+    ).then(r => {
+      const result = getQueryResult(r, 91);
+      if (!result || !result.Id)
+        throw new SPNotFoundError('Could not find term.', {
+          status: 404,
+          site: options.site || 'current'
         });
-        return r;
-      });
+      return parseTerm(result);
+    });
+  }
+
+  /**
+   * Utility method: Create a term below a term or at the root of a termset
+   *
+   * @param lcid - Language of name
+   *
+   * @example
+   * Fetcher.createTerm('Oslo', { term: norwayId }).then(term => term.PathOfTerm);
+   */
+  public createTerm(
+    name: string,
+    parent: ITermTarget,
+    lcid: number = 1033,
+    options: ITaxonomyOptions = {}
+  ) {
+    return this.writeTerm(
+      [
+        'term' in parent
+          ? getTermPath(parent.term)
+          : methodPath(TERM_PATH, TERM_STORE_PATH, 'GetTermSet', [
+              param('Guid', parent.termset)
+            ]),
+        methodPath(4, TERM_PATH, 'CreateTerm', [
+          param('String', name),
+          param('Int32', lcid),
+          param('Guid', createGuid())
+        ])
+      ],
+      [],
+      4,
+      options
+    );
+  }
+
+  /**
+   * Utility method: Rename a term. Changes its default label in the default
+   * language of the term store.
+   */
+  public renameTerm(id: string, name: string, options: ITaxonomyOptions = {}) {
+    return this.writeTerm(
+      [getTermPath(id)],
+      [setPropertyAction(10, TERM_PATH, 'Name', param('String', name))],
+      TERM_PATH,
+      options
+    );
+  }
+
+  /**
+   * Utility method: Add a label to a term. Labels that are not the default
+   * for their language are synonyms.
+   *
+   * @param isDefault - Make the label the default label for lcid
+   */
+  public addTermLabel(
+    id: string,
+    value: string,
+    lcid: number = 1033,
+    isDefault: boolean = false,
+    options: ITaxonomyOptions = {}
+  ) {
+    return this.writeTerm(
+      [getTermPath(id)],
+      [
+        methodAction(10, TERM_PATH, 'CreateLabel', [
+          param('String', value),
+          param('Int32', lcid),
+          param('Boolean', isDefault)
+        ])
+      ],
+      TERM_PATH,
+      options
+    );
+  }
+
+  /**
+   * Utility method: Make an existing label the default label for its language
+   */
+  public setDefaultTermLabel(
+    id: string,
+    value: string,
+    options: ITaxonomyOptions = {}
+  ) {
+    return this.writeTerm(
+      [
+        getTermPath(id),
+        propertyPath(4, TERM_PATH, 'Labels'),
+        methodPath(5, 4, 'GetByValue', [param('String', value)])
+      ],
+      [methodAction(10, 5, 'SetAsDefaultForLanguage')],
+      TERM_PATH,
+      options
+    );
+  }
+
+  /**
+   * Utility method: Remove a label, e.g. a synonym, from a term
+   */
+  public deleteTermLabel(
+    id: string,
+    value: string,
+    options: ITaxonomyOptions = {}
+  ) {
+    return this.writeTerm(
+      [
+        getTermPath(id),
+        propertyPath(4, TERM_PATH, 'Labels'),
+        methodPath(5, 4, 'GetByValue', [param('String', value)])
+      ],
+      [methodAction(10, 5, 'DeleteObject')],
+      TERM_PATH,
+      options
+    );
+  }
+
+  /**
+   * Utility method: Deprecate a term, or make it available again.
+   * Deprecated terms can not be used for tagging.
+   */
+  public deprecateTerm(
+    id: string,
+    deprecate: boolean = true,
+    options: ITaxonomyOptions = {}
+  ) {
+    return this.writeTerm(
+      [getTermPath(id)],
+      [methodAction(10, TERM_PATH, 'Deprecate', [param('Boolean', deprecate)])],
+      TERM_PATH,
+      options
+    );
+  }
+
+  /**
+   * Utility method: Move a term, with its children, below another term or
+   * to the root of a termset
+   */
+  public moveTerm(
+    id: string,
+    target: ITermTarget,
+    options: ITaxonomyOptions = {}
+  ) {
+    return this.writeTerm(
+      [
+        getTermPath(id),
+        'term' in target
+          ? methodPath(4, TERM_STORE_PATH, 'GetTerm', [
+              param('Guid', target.term)
+            ])
+          : methodPath(4, TERM_STORE_PATH, 'GetTermSet', [
+              param('Guid', target.termset)
+            ])
+      ],
+      [methodAction(10, TERM_PATH, 'Move', [objectParam(4)])],
+      TERM_PATH,
+      options
+    );
+  }
+
+  /**
+   * Utility method: Set a custom property of a term. Local custom
+   * properties only apply to this instance of a reused term.
+   *
+   * @param value - Removes the property when undefined
+   */
+  public setTermProperty(
+    id: string,
+    name: string,
+    value: string | undefined,
+    local: boolean = false,
+    options: ITaxonomyOptions = {}
+  ) {
+    const method = `${value === undefined ? 'Delete' : 'Set'}${
+      local ? 'Local' : ''
+    }CustomProperty`;
+    return this.writeTerm(
+      [getTermPath(id)],
+      [
+        methodAction(
+          10,
+          TERM_PATH,
+          method,
+          [param('String', name)].concat(
+            value === undefined ? [] : [param('String', value)]
+          )
+        )
+      ],
+      TERM_PATH,
+      options
+    );
+  }
+
+  /**
+   * Utility method: Delete a term and its children
+   */
+  public deleteTerm(id: string, options: ITaxonomyOptions = {}) {
+    return this.processQuery(
+      createProcessQuery(
+        [
+          methodAction(10, TERM_PATH, 'DeleteObject'),
+          methodAction(90, TERM_STORE_PATH, 'CommitAll')
+        ],
+        [getTermStorePaths(options.store), getTermPath(id)]
+      ),
+      options.site,
+      { signal: options.signal }
+    ).then(() => undefined as void);
   }
 
   /**
    * Get list item references from RowAccessor items
    *
+   * @deprecated Only works for files in the default site. Use getSelection.
    * @param selected - RowAccessor[]
    */
   public getSelectedFiles(
-    selected: { getValueByName: (arg: string) => any }[]
+    selected: { getValueByName: (arg: string) => any }[],
+    signal?: AbortSignal
   ) {
-    return this.Web().then(web =>
+    return this.withWeb('default', signal, web =>
       Promise.all(
         selected.map(row =>
           web
             .getFileByServerRelativePath(row.getValueByName('FileRef'))
             .getItem()
         )
-      )
+      ).catch(this.fail())
     );
   }
 
+  /**
+   * Utility method: Resolve rows selected in a list view, in libraries as
+   * well as lists. Every row is read in the shared batch of the list's site.
+   *
+   * @param selected - RowAccessor[]
+   *
+   * @example
+   * public onExecute(event: IListViewCommandSetExecuteEventParameters) {
+   *   Fetcher.getSelection(event.selectedRows, { select: ['Title', 'Author'] }).then(selection =>
+   *     selection.filter(row => row.kind === 'file').map(row => row.values.Title)
+   *   );
+   * }
+   */
+  public getSelection<V = { [key: string]: any }>(
+    selected: { getValueByName: (arg: string) => any }[],
+    options: ISelectionOptions = {}
+  ): Promise<ISelectedItem<V>[]> {
+    const { select, signal } = options;
+    return abortable(this.ready(), signal).then(() => {
+      const { list, web } = this.context.pageContext;
+      const site = options.site || web.absoluteUrl;
+      const listId = options.list || (list && list.id.toString());
+      if (!listId)
+        throw new SPFetcherError(
+          'There is no current list, use options.list.',
+          {
+            code: 'InvalidList',
+            site
+          }
+        );
+      return this.getListById(listId, site, signal)
+        .then(library =>
+          Promise.all([
+            this.inBatch(
+              batch => library.select('Id', 'BaseType').inBatch(batch).get(),
+              site,
+              signal
+            ),
+            select
+              ? this.getItemReader(library, select, signal)
+              : Promise.resolve(undefined as IItemReader)
+          ]).then(([info, reader]) =>
+            Promise.all(
+              selected.map(row =>
+                this.inBatch(
+                  batch =>
+                    library.items
+                      .getById(Number(row.getValueByName('ID')))
+                      .select(
+                        'Id',
+                        'FileRef',
+                        'FileLeafRef',
+                        'FSObjType',
+                        'ContentTypeId',
+                        'ContentType/Name',
+                        ...(reader ? reader.select : [])
+                      )
+                      .expand('ContentType', ...(reader ? reader.expand : []))
+                      .inBatch(batch)
+                      .get(),
+                  site,
+                  signal
+                )
+              )
+            ).then(items => {
+              const values =
+                reader && options.normalize ? reader.normalize(items) : items;
+              return items.map(
+                (item, idx): ISelectedItem<V> => ({
+                  kind:
+                    `${item.FSObjType}` === '1'
+                      ? 'folder'
+                      : info.BaseType === 1
+                      ? 'file'
+                      : 'item',
+                  listId: info.Id,
+                  id: item.Id,
+                  webUrl: this.getSiteUrl(site),
+                  url: item.FileRef,
+                  name: item.FileLeafRef,
+                  contentTypeId: item.ContentTypeId,
+                  contentType: item.ContentType && item.ContentType.Name,
+                  values: (select || []).reduce(
+                    (prev, key) => ({ ...prev, [key]: values[idx][key] }),
+                    {} as V
+                  )
+                })
+              );
+            })
+          )
+        )
+        .catch(this.fail(this.getSiteKey(site) || site));
+    });
+  }
+
   /**
    * Utility method: Get default document library id
    * No need to use ready() here because getProperties() takes care of that.
    */
   public getDefaultLibraryId(
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
-  ) {
-    return this.Web(site)
-      .then(web => web.defaultDocumentLibrary.select('Id').get())
-      .then(r => r.Id)
-      .then(libraryId => {
-        if (libraryId) {
-          return libraryId;
-        } else throw new Error('Could not find default documents library.');
-      });
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
+  ) {
+    return this.withWeb(site, signal, web =>
+      this.cached(
+        'getDefaultLibraryId',
+        web.toUrl(),
+        () =>
+          web.defaultDocumentLibrary
+            .select('Id')
+            .get()
+            .then(r => r.Id as string)
+            .catch(this.fail(site)),
+        undefined,
+        signal
+      )
+    ).then(libraryId => {
+      if (libraryId) {
+        return libraryId;
+      } else
+        throw new SPNotFoundError('Could not find default documents library.', {
+          status: 404,
+          site: site || 'default'
+        });
+    });
   }
 
   /**
@@ -298,36 +1096,39 @@ export class SPFetcherUtils<
    * No need to use ready() here because getProperties() takes care of that.
    */
   public getDefaultLibrary(
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.getDefaultLibraryId(site).then(libraryId =>
-      this.getListById(libraryId, site)
+    return this.getDefaultLibraryId(site, signal).then(libraryId =>
+      this.getListById(libraryId, site, signal)
     );
   }
 
   /**
    * Utility method: Get current document library id
    */
-  public getCurrentLibraryId() {
-    return this.ready().then(() => this.context.pageContext.list.id.toString());
+  public getCurrentLibraryId(signal?: AbortSignal) {
+    return abortable(this.ready(), signal).then(() =>
+      this.context.pageContext.list.id.toString()
+    );
   }
 
   /**
    * Utility method: Get current document library
    */
-  public getCurrentLibrary() {
-    return this.getCurrentLibraryId().then(libraryId =>
-      this.getListById(libraryId)
+  public getCurrentLibrary(signal?: AbortSignal) {
+    return this.getCurrentLibraryId(signal).then(libraryId =>
+      this.getListById(libraryId, undefined, signal)
     );
   }
 
   /**
    * Utility method: Check whether the user is curently viewing the default library.
    */
-  public isDefaultLibrary() {
+  public isDefaultLibrary(signal?: AbortSignal) {
     return Promise.all([
-      this.getDefaultLibraryId(),
-      this.getCurrentLibraryId()
+      this.getDefaultLibraryId(undefined, signal),
+      this.getCurrentLibraryId(signal)
     ]).then(([defaultId, currentId]) => defaultId === currentId);
   }
 
@@ -337,9 +1138,10 @@ export class SPFetcherUtils<
   public getItemByPath(
     path: string,
     type?: ItemType,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
-    return this.Web(site).then(web =>
+    return this.withWeb(site, signal, web =>
       web[
         type === 'folder'
           ? 'getFolderByServerRelativePath'
@@ -347,6 +1149,7 @@ export class SPFetcherUtils<
       ](`/${path.replace(/^\/|\/$/g, '')}`)
         .getItem()
         .then(item => item)
+        .catch(this.fail(site))
     );
   }
 
@@ -356,13 +1159,853 @@ export class SPFetcherUtils<
   public getParentLibrary(
     path?: string,
     type?: ItemType,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
     return path
-      ? this.getItemByPath(path, type, site)
+      ? this.getItemByPath(path, type, site, signal)
           .then(item => item.toUrl().replace(/^.*guid'(.*)'(.*)/g, '$1'))
-          .then(libraryId => this.getListById(libraryId, site))
-      : this.getDefaultLibrary(site);
+          .then(libraryId => this.getListById(libraryId, site, signal))
+      : this.getDefaultLibrary(site, signal);
+  }
+
+  /**
+   * Helper method: Get the name to upload a file as, according to conflict
+   */
+  private getUploadName(
+    web: IWeb,
+    folder: string,
+    name: string,
+    conflict: IUploadOptions['conflict'],
+    attempt: number = 0
+  ): Promise<string> {
+    if (conflict === 'overwrite') return Promise.resolve(name);
+    const candidate = attempt ? getAlternativeName(name, attempt) : name;
+    return web
+      .getFileByServerRelativePath(`${folder}/${candidate}`)
+      .exists()
+      .then(exists =>
+        !exists
+          ? candidate
+          : conflict === 'rename'
+          ? this.getUploadName(web, folder, name, conflict, attempt + 1)
+          : Promise.reject(
+              new SPFetcherError(`File already exists: ${folder}/${name}`, {
+                status: 409,
+                code: 'FileExists',
+                url: `${folder}/${name}`
+              })
+            )
+      );
+  }
+
+  /**
+   * Helper method: Upload a file in chunks, in an upload session.
+   * The session is removed if the upload fails or is cancelled, and so is the
+   * file if this call created it. A file that is overwritten keeps its
+   * content until the last chunk is committed.
+   */
+  private uploadChunks(
+    web: IWeb,
+    url: string,
+    blob: Blob,
+    chunkSize: number,
+    overwrite: boolean,
+    onChunk: (loaded: number) => void,
+    site?: string,
+    signal?: AbortSignal
+  ): Promise<IFileInfo> {
+    const id = createGuid();
+    const endpoint = `${
+      web.toUrl().split('/_api/')[0]
+    }/_api/web/getFileByServerRelativePath(decodedurl=${quoteUrl(url)})`;
+    const offsets = getChunkOffsets(blob.size, chunkSize);
+    const send = (idx: number): Promise<IFileInfo> => {
+      const offset = offsets[idx];
+      const last = idx === offsets.length - 1;
+      return this.post(
+        `${endpoint}/${
+          idx === 0 ? 'startUpload' : last ? 'finishUpload' : 'continueUpload'
+        }(uploadId=guid'${id}'${idx === 0 ? '' : `,fileOffset=${offset}`})`,
+        { body: blob.slice(offset, offset + chunkSize) },
+        undefined,
+        { signal }
+      )
+        .then(response => response.json())
+        .then(body => {
+          onChunk(last ? blob.size : getUploadOffset(body));
+          return last ? body.d || body : send(idx + 1);
+        });
+    };
+    const name = url.split('/').pop();
+    const folder = url.slice(0, url.length - name.length - 1);
+    return (overwrite
+      ? web.getFileByServerRelativePath(url).exists()
+      : Promise.resolve(false)
+    )
+      .then(exists =>
+        exists
+          ? false
+          : web
+              .getFolderByServerRelativePath(folder)
+              .files.addUsingPath(name, '', { Overwrite: false })
+              .then(() => true)
+      )
+      .then(created =>
+        send(0).catch(error =>
+          this.post(`${endpoint}/cancelUpload(uploadId=guid'${id}')`)
+            .catch(() => undefined)
+            .then(() =>
+              created
+                ? this.Web(site).then(clean =>
+                    clean.getFileByServerRelativePath(url).delete()
+                  )
+                : undefined
+            )
+            .catch(() => undefined)
+            .then(() => Promise.reject(error))
+        )
+      );
+  }
+
+  /**
+   * Utility method: Upload a file to a folder.
+   * Files larger than the chunk size are uploaded in chunks, in an upload
+   * session, so that there is no limit to their size. Progress is reported
+   * after every chunk, and emitted as `uploadProgress`.
+   *
+   * @param folder - Server relative, or relative to the web of the site
+   * @returns The uploaded file
+   *
+   * @example
+   * Fetcher.uploadFile('Shared Documents/Reports', file.name, file, {
+   *   conflict: 'rename',
+   *   metadata: { Status: 'Draft' },
+   *   onProgress: ({ loaded, total }) => console.log(`${Math.round((100 * loaded) / total)}%`),
+   *   signal: controller.signal
+   * });
+   */
+  public uploadFile(
+    folder: string,
+    name: string,
+    content: Blob | ArrayBuffer,
+    options: IUploadOptions = {}
+  ): Promise<IFileInfo> {
+    const { site, signal, metadata } = options;
+    const conflict = options.conflict || 'fail';
+    const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+    const blob = content instanceof Blob ? content : new Blob([content]);
+    return this.withWeb(site, signal, web => {
+      const webUrl = web.toUrl().split('/_api/')[0];
+      const folderUrl = (folder.startsWith('/')
+        ? folder
+        : `${webUrl.replace(/^https?:\/\/[^/]+/, '')}/${folder}`
+      ).replace(/\/+$/, '');
+      return this.getUploadName(web, folderUrl, name, conflict)
+        .then(fileName => {
+          const url = `${folderUrl}/${fileName}`;
+          const report = (loaded: number) => {
+            const progress = { url, loaded, total: blob.size };
+            if (options.onProgress) options.onProgress({ ...progress });
+            this.emit('uploadProgress', progress);
+          };
+          return (blob.size > chunkSize
+            ? this.uploadChunks(
+                web,
+                url,
+                blob,
+                chunkSize,
+                conflict === 'overwrite',
+                report,
+                site,
+                signal
+              )
+            : web
+                .getFolderByServerRelativePath(folderUrl)
+                .files.addUsingPath(fileName, blob, {
+                  Overwrite: conflict === 'overwrite'
+                })
+                .then(({ data }) => {
+                  report(blob.size);
+                  return data;
+                })
+          ).then(data =>
+            metadata
+              ? Promise.all([
+                  this.getParentLibrary(url, 'file', site, signal),
+                  this.getItemByPath(url, 'file', site, signal).then(item =>
+                    item.select('Id').get()
+                  )
+                ])
+                  .then(([list, { Id }]) =>
+                    this.updateItem(list, Id, metadata, signal)
+                  )
+                  .then(() => data)
+              : data
+          );
+        })
+        .catch(this.fail(this.getSiteKey(webUrl)));
+    });
+  }
+
+  /**
+   * Utility method: Make sure a folder exists, creating it and any missing
+   * parent folders, like mkdir -p
+   *
+   * @param path - Server relative, or relative to the web of the site
+   *
+   * @example
+   * Fetcher.ensureFolder('Shared Documents/Projects/2020/Q4', 'hr');
+   */
+  public ensureFolder(
+    path: string,
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
+  ): Promise<IFolderInfo> {
+    return this.withWeb(site, signal, web => {
+      const webPath = web
+        .toUrl()
+        .split('/_api/')[0]
+        .replace(/^https?:\/\/[^/]+/, '');
+      const target = (path.startsWith('/')
+        ? path
+        : `${webPath}/${path}`
+      ).replace(/\/+$/, '');
+      const root = target.toLowerCase().startsWith(`${webPath.toLowerCase()}/`)
+        ? webPath
+        : '';
+      const segments = target
+        .slice(root.length)
+        .split('/')
+        .filter(segment => segment);
+      const get = (url: string) =>
+        web
+          .getFolderByServerRelativePath(url)
+          .get()
+          .catch(error => {
+            if (error && error.status === 404)
+              return { Exists: false } as IFolderInfo;
+            throw error;
+          });
+      const ensure = (idx: number): Promise<IFolderInfo> => {
+        const url = `${root}/${segments.slice(0, idx + 1).join('/')}`;
+        return get(url)
+          .then(folder =>
+            folder.Exists
+              ? folder
+              : web.folders.addUsingPath(url).then(({ data }) => data)
+          )
+          .then(folder =>
+            idx < segments.length - 1 ? ensure(idx + 1) : folder
+          );
+      };
+      return get(target)
+        .then(folder => (folder.Exists ? folder : ensure(0)))
+        .catch(this.fail(site));
+    });
+  }
+
+  /**
+   * Helper method: Wait for a copy or move job to finish, collecting its logs
+   */
+  private pollCopyJob(
+    siteUrl: string,
+    job: ICopyJobInfo,
+    interval: number,
+    onPoll: (logs: ICopyLog[]) => void,
+    signal?: AbortSignal,
+    logs: ICopyLog[] = []
+  ): Promise<ICopyLog[]> {
+    return this.post(
+      `${siteUrl}/_api/site/GetCopyJobProgress`,
+      {
+        headers: {
+          accept: 'application/json;odata=nometadata',
+          'content-type': 'application/json;odata=nometadata'
+        },
+        body: JSON.stringify({ copyJobInfo: job })
+      },
+      undefined,
+      { signal, readOnly: true }
+    )
+      .then(response => response.json())
+      .then(progress => {
+        const collected = logs.concat(
+          parseCopyLogs(getODataValue(progress.Logs))
+        );
+        onPoll(collected);
+        return progress.JobState === 0
+          ? collected
+          : abortable(wait(interval), signal).then(() =>
+              this.pollCopyJob(
+                siteUrl,
+                job,
+                interval,
+                onPoll,
+                signal,
+                collected
+              )
+            );
+      });
+  }
+
+  /**
+   * Helper method: Copy or move files and folders with copy jobs
+   */
+  private transferFiles(
+    sources: string[],
+    destination: string,
+    move: boolean,
+    options: ICopyOptions = {}
+  ): Promise<ICopyResult[]> {
+    const { site, signal } = options;
+    const targetSite = options.targetSite || site;
+    return abortable(this.ready(), signal).then(() => {
+      const siteUrl = this.getSiteUrl(site || 'default');
+      const origin = (url: string) => /^https?:\/\/[^/]+/i.exec(url)[0];
+      const absolute = sources.map(source =>
+        /^https?:\/\//i.test(source)
+          ? source
+          : source.startsWith('/')
+          ? `${origin(siteUrl)}${source}`
+          : `${siteUrl}/${source}`
+      );
+      const results: ICopyResult[][] = [];
+      const report = () => {
+        if (options.onProgress)
+          options.onProgress({
+            done: results
+              .reduce((prev, part) => prev.concat(part || []), [])
+              .filter(result => result.target || result.error).length,
+            total: sources.length
+          });
+      };
+      return this.ensureFolder(destination, targetSite, signal)
+        .then(folder =>
+          this.post(
+            `${siteUrl}/_api/site/CreateCopyJobs`,
+            {
+              headers: {
+                accept: 'application/json;odata=nometadata',
+                'content-type': 'application/json;odata=nometadata'
+              },
+              body: JSON.stringify({
+                exportObjectUris: absolute,
+                destinationUri: `${origin(
+                  this.getSiteUrl(targetSite || 'default')
+                )}${folder.ServerRelativeUrl}`,
+                options: {
+                  AllowSchemaMismatch: true,
+                  IgnoreVersionHistory: !options.keepVersions,
+                  IsMoveMode: move,
+                  NameConflictBehavior:
+                    nameConflictBehaviors[options.conflict || 'fail']
+                }
+              })
+            },
+            undefined,
+            { signal }
+          )
+        )
+        .then(response => response.json())
+        .then(body => {
+          const jobs: ICopyJobInfo[] = getODataValue(body) || [];
+          // One job is created per source
+          const jobSources = (idx: number) =>
+            jobs.length === absolute.length ? [absolute[idx]] : absolute;
+          return Promise.all(
+            jobs.map((job, idx) =>
+              this.pollCopyJob(
+                siteUrl,
+                job,
+                options.pollInterval || DEFAULT_POLL_INTERVAL,
+                logs => {
+                  results[idx] = getCopyResults(jobSources(idx), logs);
+                  report();
+                },
+                signal
+              ).then(logs => getCopyResults(jobSources(idx), logs))
+            )
+          );
+        })
+        .then(jobResults =>
+          absolute.map(
+            source =>
+              jobResults
+                .reduce((prev, part) => prev.concat(part), [])
+                .find(result => result.source === source) || { source }
+          )
+        )
+        .catch(this.fail(site));
+    });
+  }
+
+  /**
+   * Utility method: Copy files and folders to a folder, within a library,
+   * across libraries or across sites. Metadata is kept where the
+   * destination has matching fields. The destination folder is created if
+   * it does not exist.
+   *
+   * Resolves once all copy jobs are done, with a result per source. Sources
+   * that could not be copied have an error.
+   *
+   * @param sources - Absolute, server relative, or relative to the web of options.site
+   * @param destination - Server relative, or relative to the web of options.targetSite
+   *
+   * @example
+   * Fetcher.copyFiles(
+   *   ['Shared Documents/Report.docx', 'Shared Documents/Drafts'],
+   *   'Archive/2020',
+   *   { targetSite: 'archive', conflict: 'rename', onProgress: ({ done, total }) => console.log(`${done}/${total}`) }
+   * ).then(results => results.filter(result => result.error));
+   */
+  public copyFiles(
+    sources: string[],
+    destination: string,
+    options?: ICopyOptions
+  ) {
+    return this.transferFiles(sources, destination, false, options);
+  }
+
+  /**
+   * Utility method: Move files and folders to a folder, see copyFiles
+   */
+  public moveFiles(
+    sources: string[],
+    destination: string,
+    options?: ICopyOptions
+  ) {
+    return this.transferFiles(sources, destination, true, options);
+  }
+
+  /**
+   * Helper method: Download files and the contents of folders into a zip
+   * archive. Paths in the archive are relative to root.
+   */
+  private zipFiles(
+    entries: { url: string; folder: boolean }[],
+    root: string,
+    options: IDownloadOptions = {}
+  ): Promise<IDownloadResult> {
+    const { site, signal } = options;
+    const skipUnreadable = options.skipUnreadable !== false;
+    const zip = new ZipWriter();
+    const skipped: IDownloadResult['skipped'] = [];
+    const relative = (url: string) =>
+      url.toLowerCase().startsWith(`${root.toLowerCase()}/`)
+        ? url.slice(root.length + 1)
+        : url.replace(/^\/+/, '');
+    return abortable(this.Web(site), signal)
+      .then(web => {
+        const webUrl = web.toUrl().split('/_api/')[0];
+        return Promise.all(
+          entries.map(entry =>
+            entry.folder
+              ? this.fetchAllItems(
+                  entry.url,
+                  'folder',
+                  ['FileRef', 'Modified', 'FSObjType'],
+                  undefined,
+                  undefined,
+                  site,
+                  undefined,
+                  signal
+                ).then(items => {
+                  // Folders have FSObjType 1, files 0
+                  const isFolder = (item: any) => `${item.FSObjType}` === '1';
+                  zip.addFolder(relative(entry.url));
+                  items
+                    .filter(
+                      item =>
+                        isFolder(item) &&
+                        relative(item.FileRef) !== relative(entry.url)
+                    )
+                    .forEach(folder =>
+                      zip.addFolder(
+                        relative(folder.FileRef),
+                        new Date(folder.Modified)
+                      )
+                    );
+                  return items
+                    .filter(item => !isFolder(item))
+                    .map(file => ({
+                      url: file.FileRef as string,
+                      modified: new Date(file.Modified)
+                    }));
+                })
+              : [{ url: entry.url, modified: undefined as Date }]
+          )
+        ).then(groups => {
+          const files = groups.reduce((prev, group) => prev.concat(group), []);
+          const queue = files.slice();
+          let done = 0;
+          const report = () => {
+            if (options.onProgress)
+              options.onProgress({
+                done,
+                total: files.length,
+                skipped: skipped.length,
+                bytes: zip.size
+              });
+          };
+          const download = (file: { url: string; modified: Date }) =>
+            this.get(
+              `${webUrl}/_api/web/getFileByServerRelativePath(decodedurl=${quoteUrl(
+                file.url
+              )})/$value`,
+              undefined,
+              undefined,
+              { signal }
+            )
+              .then(response => response.arrayBuffer())
+              .then(
+                buffer => zip.add(relative(file.url), buffer, file.modified),
+                error => {
+                  if (
+                    !(
+                      skipUnreadable &&
+                      (error instanceof SPAccessDeniedError ||
+                        error instanceof SPNotFoundError)
+                    )
+                  )
+                    throw error;
+                  skipped.push({ url: file.url, error });
+                }
+              )
+              .then(() => {
+                done += 1;
+                report();
+              });
+          const worker = (): Promise<void> =>
+            queue.length
+              ? download(queue.shift()).then(worker, error => {
+                  queue.length = 0;
+                  throw error;
+                })
+              : Promise.resolve();
+          return Promise.all(
+            queue.slice(0, options.concurrency || 4).map(() => worker())
+          ).then(() => ({
+            blob: zip.toBlob(),
+            files: files.length - skipped.length,
+            skipped
+          }));
+        });
+      })
+      .catch(this.fail(site));
+  }
+
+  /**
+   * Utility method: Download a folder, with all its files and subfolders,
+   * as a zip archive
+   *
+   * @param path - Server relative path of the folder
+   *
+   * @example
+   * Fetcher.downloadFolder('/sites/hr/Shared Documents/Policies').then(({ blob }) => {
+   *   const link = document.createElement('a');
+   *   link.href = URL.createObjectURL(blob);
+   *   link.download = 'Policies.zip';
+   *   link.click();
+   * });
+   */
+  public downloadFolder(path: string, options?: IDownloadOptions) {
+    const url = `/${path.replace(/^\/+|\/+$/g, '')}`;
+    return this.zipFiles(
+      [{ url, folder: true }],
+      url.slice(0, url.lastIndexOf('/')),
+      options
+    );
+  }
+
+  /**
+   * Utility method: Download the files and folders selected in a list view
+   * as a zip archive. Folders are downloaded with all their contents.
+   *
+   * @param selected - RowAccessor[]
+   *
+   * @example
+   * public onExecute(event: IListViewCommandSetExecuteEventParameters) {
+   *   Fetcher.downloadSelection(event.selectedRows, {
+   *     onProgress: ({ done, total }) => console.log(`${done}/${total}`)
+   *   });
+   * }
+   */
+  public downloadSelection(
+    selected: { getValueByName: (arg: string) => any }[],
+    options?: IDownloadOptions
+  ) {
+    const entries = selected.map(row => ({
+      url: `${row.getValueByName('FileRef')}`,
+      folder: `${row.getValueByName('FSObjType')}` === '1'
+    }));
+    const root = entries.length
+      ? entries[0].url.slice(0, entries[0].url.lastIndexOf('/'))
+      : '';
+    return this.zipFiles(entries, root, options);
+  }
+
+  /**
+   * Helper method: Serialize friendly values for a write to list
+   */
+  private serializeValues(
+    list: IList,
+    values: { [key: string]: any },
+    signal?: AbortSignal
+  ) {
+    const url = list.toUrl().split('/_api/')[0];
+    return this.getListFields(list, signal).then(fields =>
+      serializeItem(values, fields, login =>
+        this.withWeb(this.getSiteKey(url) || url, signal, web =>
+          web.ensureUser(login)
+        ).then(({ data }) => data.Id)
+      )
+    );
+  }
+
+  /**
+   * Utility method: Create an item. Values are serialized per field type,
+   * see serializeItem.
+   *
+   * @returns The created item
+   *
+   * @example
+   * Fetcher.getListByTitle('Tasks').then(list =>
+   *   Fetcher.createItem(list, {
+   *     Title: 'Review',
+   *     AssignedTo: ['ola@contoso.com', 12],
+   *     Due: new Date(),
+   *     Topics: [{ id: '0e8f395e-ff58-4d45-9ff7-e331ab728beb', label: 'Finance' }]
+   *   })
+   * );
+   */
+  public createItem(
+    list: IList,
+    values: { [key: string]: any },
+    signal?: AbortSignal
+  ): Promise<any> {
+    return this.serializeValues(list, values, signal)
+      .then(body =>
+        this.withSignal(list.items, signal, items => items.add(body))
+      )
+      .then(({ data }) => data)
+      .catch(this.fail(this.getSiteKey(list.toUrl())));
+  }
+
+  /**
+   * Utility method: Update an item. Values are serialized per field type,
+   * see serializeItem. Fields not in values are left untouched.
+   */
+  public updateItem(
+    list: IList,
+    id: number,
+    values: { [key: string]: any },
+    signal?: AbortSignal
+  ): Promise<void> {
+    return this.serializeValues(list, values, signal)
+      .then(body =>
+        this.withSignal(list.items.getById(id), signal, item =>
+          item.update(body)
+        )
+      )
+      .then(() => undefined)
+      .catch(this.fail(this.getSiteKey(list.toUrl())));
+  }
+
+  /**
+   * Utility method: Delete an item
+   */
+  public deleteItem(
+    list: IList,
+    id: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return this.withSignal(list.items.getById(id), signal, item =>
+      item.delete()
+    ).catch(this.fail(this.getSiteKey(list.toUrl())));
+  }
+
+  /**
+   * Helper method: Get the query and the normalizer for reading items of list.
+   * Paths of terms are left out if their term set can not be read.
+   */
+  private getItemReader(
+    list: IList,
+    select?: string[],
+    signal?: AbortSignal
+  ): Promise<IItemReader> {
+    return this.getListFields(list, signal).then(fields => {
+      const query = getReadQuery(fields, select);
+      const termsets = fields
+        .filter(
+          field =>
+            field['odata.type'] === 'SP.Taxonomy.TaxonomyField' &&
+            (!select || select.indexOf(field.InternalName) !== -1)
+        )
+        .map((field: TaxonomyField) => field.TermSetId)
+        .filter((id, idx, ids) => id && ids.indexOf(id) === idx);
+      return Promise.all(
+        termsets.map(id =>
+          this.getTermsetById(id, undefined, signal).catch((): ITerm[] => [])
+        )
+      ).then(terms => {
+        const paths = terms
+          .reduce((prev, termset) => prev.concat(termset), [])
+          .reduce(
+            (prev, term) => ({
+              ...prev,
+              [term.Id.toLowerCase()]: term.PathOfTerm
+            }),
+            {} as { [id: string]: string }
+          );
+        return {
+          ...query,
+          normalize: (items: any[]) =>
+            items.map(item => normalizeItem(item, fields, paths)),
+          normalizeRows: (rows: any[]) =>
+            rows.map(row => normalizeRow(row, fields, paths))
+        };
+      });
+    });
+  }
+
+  /**
+   * Utility method: Turn items of list in raw OData into normalized items,
+   * see normalizeItem. Select and expand lookup and user fields when
+   * querying, e.g. with getReadQuery, to get more than their ids.
+   *
+   * @example
+   * Fetcher.getListByTitle('Tasks').then(list =>
+   *   list.items.get().then(items => Fetcher.normalizeItems(list, items))
+   * );
+   */
+  public normalizeItems(
+    list: IList,
+    items: any[],
+    signal?: AbortSignal
+  ): Promise<any[]> {
+    return this.getItemReader(list, undefined, signal)
+      .then(reader => reader.normalize(items))
+      .catch(this.fail(this.getSiteKey(list.toUrl())));
+  }
+
+  /**
+   * Utility method: Query items of list with CAML through RenderListDataAsStream.
+   * Scoping to a folder and filtering on indexed columns works past the list
+   * view threshold. Items are normalized, see normalizeItem.
+   *
+   * @example
+   * const c = createCaml<IDocumentsItem>();
+   * Fetcher.getDefaultLibrary().then(library =>
+   *   Fetcher.renderListData(library, {
+   *     folder: 'Shared Documents/Projects',
+   *     scope: 'RecursiveAll',
+   *     where: c.eq('Status', 'Approved'),
+   *     orderBy: [{ field: 'Modified', ascending: false }],
+   *     top: 500
+   *   })
+   * );
+   */
+  public renderListData<R = any>(
+    list: IList,
+    query: ICamlQuery = {},
+    signal?: AbortSignal
+  ): Promise<IListDataPage<R>> {
+    const web = list
+      .toUrl()
+      .split('/_api/')[0]
+      .replace(/^https?:\/\/[^/]+/, '');
+    const folder = query.folder
+      ? query.folder.startsWith('/')
+        ? query.folder
+        : `${web}/${query.folder}`
+      : undefined;
+    return this.getItemReader(list, query.select, signal)
+      .then(reader =>
+        abortable(
+          this.withSignal(List(list), signal, target =>
+            target.renderListDataAsStream({
+              ViewXml: createViewXml(query),
+              FolderServerRelativeUrl: folder && folder.replace(/\/+$/, ''),
+              Paging: query.paging,
+              DatesInUtc: true,
+              RenderOptions: RenderListDataOptions.ListData
+            })
+          ),
+          signal
+        ).then(data => ({
+          items: reader.normalizeRows(data.Row || []),
+          next: data.NextHref ? data.NextHref.replace(/^\?/, '') : undefined,
+          previous: data.PrevHref ? data.PrevHref.replace(/^\?/, '') : undefined
+        }))
+      )
+      .catch(this.fail(this.getSiteKey(list.toUrl())));
+  }
+
+  /**
+   * Utility method: Iterate over all pages of a CAML query, see renderListData
+   *
+   * @example
+   * for await (const page of Fetcher.iterateListData(library, { scope: 'RecursiveAll', top: 1000 })) {
+   *   // ...
+   * }
+   */
+  public iterateListData<R = any>(
+    list: IList,
+    query: ICamlQuery = {},
+    signal?: AbortSignal
+  ): AsyncIterableIterator<R[]> {
+    let paging = query.paging;
+    let done = false;
+    return createPageIterator(() =>
+      done
+        ? Promise.resolve(undefined)
+        : this.renderListData<R>(list, { ...query, paging }, signal).then(
+            page => {
+              paging = page.next;
+              done = !page.next;
+              return page.items;
+            }
+          )
+    );
+  }
+
+  /**
+   * Helper method: Build the filter for items of parent
+   */
+  private getItemsFilter(parent?: string, filter?: SPFilterInput) {
+    const f = createFilter<{ FileRef: string }>();
+    return SPFilter.from(
+      ([
+        parent
+          ? f.eq('FileRef', parent).or(f.substringof(`${parent}/`, 'FileRef'))
+          : undefined
+      ] as (string | SPFilter)[]).concat(filter || [])
+    );
+  }
+
+  /**
+   * Helper method: Query items of library
+   */
+  private queryItems(
+    library: IList,
+    filters?: SPFilter,
+    select?: string | string[],
+    top?: number,
+    expand: string[] = []
+  ) {
+    const filtered =
+      filters && `${filters}`.length
+        ? library.items.filter(`${filters}`)
+        : library.items;
+    const expanded = expand.concat(
+      filters
+        ? filters.expand.filter(field => expand.indexOf(field) === -1)
+        : []
+    );
+    const items = expanded.length ? filtered.expand(...expanded) : filtered;
+    const selected = select ? items.select(...[].concat(select)) : items;
+    return top ? selected.top(top) : selected;
   }
 
   /**
@@ -372,26 +2015,213 @@ export class SPFetcherUtils<
     parent?: string,
     type?: ItemType,
     select?: string | string[],
-    filter?: string | string[],
+    filter?: SPFilterInput,
     top?: number,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    signal?: AbortSignal
   ) {
     if (parent) parent = parent.replace(/^\/|\/$/g, '');
-    const filters = [
-      parent
-        ? `FileRef eq '${parent}' or substringof('${parent}/',FileRef)`
-        : undefined
-    ]
-      .concat(filter || [])
-      .filter(test => test)
-      .join(' and ');
-    return this.getParentLibrary(parent, type, site)
-      .then(library => library.items)
-      .then(items =>
-        filters && filters.length ? items.filter(filters) : items
+    const filters = this.getItemsFilter(parent, filter);
+    return this.getParentLibrary(parent, type, site, signal).then(library =>
+      this.queryItems(library, filters, select, top)
+    );
+  }
+
+  /**
+   * Utility method: Iterate over all items of parent, one page at a time.
+   * Follows __next links. Falls back to paging by ID ranges when the query is
+   * blocked by the list view threshold, also after some pages were loaded.
+   *
+   * @param top - Maximum number of items
+   * @param onProgress - Called after every page
+   * @param normalize - Turn items into normalized items, see normalizeItem
+   * @param pageSize - Number of items per request. Defaults to top.
+   *
+   * @example
+   * for await (const page of Fetcher.iterateAllItems('Shared Documents')) {
+   *   // ...
+   * }
+   */
+  public iterateAllItems(
+    parent?: string,
+    type?: ItemType,
+    select?: string | string[],
+    filter?: SPFilterInput,
+    top?: number,
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    onProgress?: (progress: IPagingProgress) => void,
+    signal?: AbortSignal,
+    normalize?: boolean,
+    pageSize?: number
+  ): AsyncIterableIterator<any[]> {
+    if (parent) parent = parent.replace(/^\/|\/$/g, '');
+    const filters = this.getItemsFilter(parent, filter);
+    const progress: IPagingProgress = {
+      pages: 0,
+      items: 0,
+      total: undefined,
+      byIdRange: false
+    };
+    let library: Promise<IList>;
+    let reader: Promise<IItemReader>;
+    let page: PagedItemCollection<any[]>;
+    let range: { start: number; last: number };
+    let lastId = 0;
+
+    // The library passes signal on while getNext holds it
+    const getLibrary = (bind?: <Q extends IList>(query: Q) => Q) =>
+      (library =
+        library ||
+        this.getParentLibrary(parent, type, site, signal).then(found => {
+          const list = bind ? bind(List(found)) : found;
+          return onProgress
+            ? list
+                .select('ItemCount')
+                .get()
+                .then(({ ItemCount }) => (progress.total = ItemCount))
+                .then(() => list)
+            : list;
+        }));
+
+    const getReader = () =>
+      (reader =
+        reader ||
+        (normalize
+          ? getLibrary().then(list =>
+              this.getItemReader(
+                list,
+                select ? [].concat(select) : undefined,
+                signal
+              )
+            )
+          : Promise.resolve(undefined)));
+
+    // Id is always read, so that paging by ID ranges can resume after the last item
+    const withId = (names: string | string[]) =>
+      names && [].concat(names).indexOf('Id') === -1
+        ? [].concat(names, 'Id')
+        : names;
+
+    const query = (list: IList, filters: SPFilter, top: number) =>
+      getReader().then(reader =>
+        this.queryItems(
+          list,
+          filters,
+          withId(reader ? reader.select : select),
+          top,
+          reader ? reader.expand : undefined
+        )
+      );
+
+    const getRange = (): Promise<any[]> => {
+      if (range.start > range.last) return Promise.resolve(undefined);
+      const start = range.start;
+      range.start += LIST_VIEW_THRESHOLD;
+      return getLibrary()
+        .then(list =>
+          query(
+            list,
+            createFilter<{ Id: number }>()
+              .between('Id', start, range.start)
+              .and(filters),
+            LIST_VIEW_THRESHOLD
+          )
+        )
+        .then(items => items.get())
+        .then(results => (results.length ? results : getRange()));
+    };
+
+    const startRange = () =>
+      getLibrary()
+        .then(list => list.items.select('Id').orderBy('Id', false).top(1).get())
+        .then(last => {
+          progress.byIdRange = true;
+          range = { start: lastId + 1, last: last.length ? last[0].Id : 0 };
+          return getRange();
+        });
+
+    const fallback = (error: any) => {
+      if (isThresholdError(error)) return startRange();
+      throw error;
+    };
+
+    const getNext = (): Promise<any[]> =>
+      top && progress.items >= top
+        ? Promise.resolve(undefined)
+        : this.holdSignal(signal, bind =>
+            abortable(
+              range
+                ? getRange()
+                : page
+                ? page.hasNext
+                  ? page
+                      .getNext()
+                      .then(next => (page = next).results)
+                      .catch(fallback)
+                  : Promise.resolve(undefined)
+                : getLibrary(bind)
+                    .then(list => query(list, filters, pageSize || top))
+                    .then(items => items.getPaged())
+                    .then(next => (page = next).results)
+                    .catch(fallback),
+              signal
+            )
+          )
+            .then((results: any[]) => {
+              if (results === undefined) return results;
+              lastId = results.reduce(
+                (prev, item) => Math.max(prev, item.Id || 0),
+                lastId
+              );
+              const limited = top
+                ? results.slice(0, top - progress.items)
+                : results;
+              return getReader().then(reader =>
+                reader ? reader.normalize(limited) : limited
+              );
+            })
+            .catch(this.fail(site))
+            .then(results => {
+              if (results !== undefined) {
+                progress.pages += 1;
+                progress.items += results.length;
+                if (onProgress) onProgress({ ...progress });
+              }
+              return results;
+            });
+
+    return createPageIterator(getNext);
+  }
+
+  /**
+   * Utility method: Get all items of parent, following every page
+   */
+  public fetchAllItems(
+    parent?: string,
+    type?: ItemType,
+    select?: string | string[],
+    filter?: SPFilterInput,
+    top?: number,
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    onProgress?: (progress: IPagingProgress) => void,
+    signal?: AbortSignal,
+    normalize?: boolean,
+    pageSize?: number
+  ) {
+    return collectPages(
+      this.iterateAllItems(
+        parent,
+        type,
+        select,
+        filter,
+        top,
+        site,
+        onProgress,
+        signal,
+        normalize,
+        pageSize
       )
-      .then(items => (select ? items.select(...[].concat(select)) : items))
-      .then(items => (top ? items.top(top) : items));
+    );
   }
 
   /**
@@ -400,18 +2230,26 @@ export class SPFetcherUtils<
   public getAllFiles(
     parent?: string,
     select?: string | string[],
-    filter?: string | string[],
+    filter?: SPFilterInput,
     top?: number,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    onProgress?: (progress: IPagingProgress) => void,
+    signal?: AbortSignal,
+    normalize?: boolean,
+    pageSize?: number
   ) {
-    return this.getAllItems(
+    return this.fetchAllItems(
       parent,
       'file',
       select,
       filter,
       top,
-      site
-    ).then(items => items.get());
+      site,
+      onProgress,
+      signal,
+      normalize,
+      pageSize
+    );
   }
 
   /**
@@ -420,18 +2258,26 @@ export class SPFetcherUtils<
   public getAllFolders(
     parent?: string,
     select?: string | string[],
-    filter?: string | string[],
+    filter?: SPFilterInput,
     top?: number,
-    site?: Parameters<SPFetcherInitializer<T>['Web']>[0]
+    site?: Parameters<SPFetcherInitializer<T>['Web']>[0],
+    onProgress?: (progress: IPagingProgress) => void,
+    signal?: AbortSignal,
+    normalize?: boolean,
+    pageSize?: number
   ) {
-    return this.getAllItems(
+    return this.fetchAllItems(
       parent,
       'folder',
       select,
       filter,
       top,
-      site
-    ).then(items => items.get());
+      site,
+      onProgress,
+      signal,
+      normalize,
+      pageSize
+    );
   }
 
   /**
@@ -439,76 +2285,82 @@ export class SPFetcherUtils<
    */
   private getContentTypeIds({
     site,
-    list
+    list,
+    signal
   }: {
     site?: string;
     list?: string;
+    signal?: AbortSignal;
   }): Promise<string[]> {
-    const key = `[${site || 'site'}]-[${list || 'list'}]`;
-    if (!this.contentTypes) this.contentTypes = {};
-    return new Promise(resolve => {
-      if (this.contentTypes[key]) {
-        if (this.contentTypes[key].StringIds) {
-          resolve(this.contentTypes[key].StringIds);
-        } else this.contentTypes[key].callbacks.push(resolve);
-      } else {
-        this.contentTypes[key] = {
-          callbacks: [resolve],
-          StringIds: undefined
-        };
-        (list === undefined
-          ? this.Web(site).then(web => web.contentTypes)
-          : this.getListByTitle(list, site).then(
-              library => library.contentTypes
-            )
+    return (list === undefined
+      ? abortable(this.Web(site), signal).then(web => web.contentTypes)
+      : this.getListByTitle(list, site, signal).then(
+          library => library.contentTypes
         )
-          .then(contentTypes => contentTypes.select('StringId').get())
-          .then(contentTypes => contentTypes.map(({ StringId }) => StringId))
-          .then(StringIds => {
-            this.contentTypes[key].StringIds = StringIds;
-            this.contentTypes[key].callbacks.forEach(cb => cb(StringIds));
-            this.contentTypes[key].callbacks = [];
-          });
-      }
-    });
+    ).then(contentTypes =>
+      this.cached(
+        'getContentTypeIds',
+        contentTypes.toUrl(),
+        () =>
+          this.withSignal(contentTypes.select('StringId'), signal, query =>
+            query.get()
+          )
+            .then(r => r.map(({ StringId }) => StringId as string))
+            .catch(this.fail(site)),
+        undefined,
+        signal
+      )
+    );
   }
 
   /**
    * Utility method: Get info for field
+   *
+   * @param _timeout - Ignored. The requests go in the shared batches of
+   * inBatch(), see the batch options.
    */
   public getFieldInfo(
     {
       site,
       id,
       name,
-      list
-    }: { site?: string; list?: string } & (
+      list,
+      signal
+    }: { site?: string; list?: string; signal?: AbortSignal } & (
       | { id: string; name?: string }
       | { id?: string; name: string }
     ),
-    timeout: number = 10
+    _timeout?: number
   ) {
-    if (site && !this.sites[site]) this.sites[site] = site;
     return Promise.all([
       list === undefined
-        ? this.Web(site).then(web => web.contentTypes)
-        : this.getListByTitle(list, site).then(library => library.contentTypes),
-      this.getContentTypeIds({ site, list }),
-      this.autoBatch(timeout, site)
+        ? abortable(this.Web(site), signal).then(web => web.contentTypes)
+        : this.getListByTitle(list, site, signal).then(
+            library => library.contentTypes
+          ),
+      this.getContentTypeIds({ site, list, signal })
     ])
-      .then(([contentTypes, StringIds, getBatch]) =>
+      .then(([contentTypes, StringIds]) =>
         Promise.all(
           StringIds.map(StringId =>
-            contentTypes
-              .getById(StringId)
-              .fields.filter(
-                id === undefined ? `InternalName eq '${name}'` : `Id eq '${id}'`
-              )
-              .inBatch(getBatch())
-              .get()
+            this.inBatch(
+              batch =>
+                contentTypes
+                  .getById(StringId)
+                  .fields.filter(
+                    id === undefined
+                      ? `InternalName eq ${quote(name)}`
+                      : `Id eq ${quote(id)}`
+                  )
+                  .inBatch(batch)
+                  .get(),
+              site,
+              signal
+            )
           )
         )
       )
-      .then(r => (r.find(test => test.length > 0) || [])[0] as IListField);
+      .then(r => (r.find(test => test.length > 0) || [])[0] as IListField)
+      .catch(this.fail(site));
   }
 }
@@ -0,0 +1,504 @@
+import {
+  FieldLookup,
+  IGeolocationValue,
+  IListField,
+  ILookupValue,
+  ITaxonomyValue,
+  IUrlValue,
+  IUserValue
+} from './interfaces';
+import { SPFetcherError } from './SPFetcher.errors';
+
+/**
+ * Value accepted when writing a field, as typed by the interfaces from
+ * getProjectTypings. Users may also be given by login name or email.
+ */
+export type SPWriteValue<F> = F extends {
+  'odata.type': 'SP.FieldNumber' | 'SP.FieldCurrency';
+}
+  ? number
+  : F extends { 'odata.type': 'SP.FieldDateTime' }
+  ? Date | string
+  : F extends { 'odata.type': 'SP.FieldMultiChoice' }
+  ? string[]
+  : F extends { 'odata.type': 'SP.FieldLookup' }
+  ? number | ILookupValue | (number | ILookupValue)[]
+  : F extends { 'odata.type': 'SP.FieldUser' }
+  ? number | string | IUserValue | (number | string | IUserValue)[]
+  : F extends { 'odata.type': 'SP.Taxonomy.TaxonomyField' }
+  ? ITaxonomyValue | ITaxonomyValue[]
+  : F extends { 'odata.type': 'SP.FieldUrl' }
+  ? string | IUrlValue
+  : F extends { 'odata.type': 'SP.FieldGeolocation' }
+  ? IGeolocationValue
+  : F extends { 'odata.type': 'SP.Field' }
+  ? string | number | boolean
+  : F extends { 'odata.type': string }
+  ? string
+  : any;
+
+/**
+ * Value of a field in a normalized item, as typed by the interfaces from
+ * getProjectTypings
+ */
+export type SPReadValue<F> = F extends {
+  'odata.type': 'SP.FieldNumber' | 'SP.FieldCurrency';
+}
+  ? number
+  : F extends { 'odata.type': 'SP.FieldDateTime' }
+  ? Date
+  : F extends { 'odata.type': 'SP.FieldMultiChoice' }
+  ? string[]
+  : F extends { 'odata.type': 'SP.FieldLookup' }
+  ? ILookupValue | ILookupValue[]
+  : F extends { 'odata.type': 'SP.FieldUser' }
+  ? IUserValue | IUserValue[]
+  : F extends { 'odata.type': 'SP.Taxonomy.TaxonomyField' }
+  ? ITaxonomyValue | ITaxonomyValue[]
+  : F extends { 'odata.type': 'SP.FieldUrl' }
+  ? IUrlValue
+  : F extends { 'odata.type': 'SP.FieldGeolocation' }
+  ? IGeolocationValue
+  : F extends { 'odata.type': 'SP.Field' }
+  ? string | number | boolean
+  : F extends { 'odata.type': string }
+  ? string
+  : any;
+
+/**
+ * A normalized item of a list with the item interface I
+ */
+export type SPNormalizedItem<I> = { Id: number } & {
+  [K in keyof I]: SPReadValue<I[K]>;
+} & { [key: string]: any };
+
+type Serialized = { [key: string]: any };
+
+function invalid(field: IListField, value: any): Promise<never> {
+  return Promise.reject(
+    new SPFetcherError(
+      `Invalid value for ${field.InternalName}: ${JSON.stringify(value)}`,
+      { code: 'InvalidValue' }
+    )
+  );
+}
+
+function toArray<V>(value: V | V[]): V[] {
+  return value === null || value === undefined ? [] : [].concat(value);
+}
+
+function getKey(field: IListField) {
+  return field.EntityPropertyName || field.InternalName;
+}
+
+/**
+ * Ids of lookup values. Users given by name are resolved with resolveUser.
+ */
+function getIds(
+  field: IListField,
+  values: (number | string | { id: number })[],
+  resolveUser?: (login: string) => Promise<number>
+) {
+  return Promise.all(
+    values.map(value =>
+      typeof value === 'number'
+        ? Promise.resolve(value)
+        : typeof value === 'string' && resolveUser
+        ? resolveUser(value)
+        : value && typeof value === 'object' && typeof value.id === 'number'
+        ? Promise.resolve(value.id)
+        : invalid(field, value)
+    )
+  );
+}
+
+function serializeLookup(
+  field: IListField & { AllowMultipleValues: boolean },
+  value: any,
+  resolveUser?: (login: string) => Promise<number>
+): Promise<Serialized> {
+  return getIds(field, toArray(value), resolveUser).then(ids => ({
+    [`${getKey(field)}Id`]: field.AllowMultipleValues
+      ? { results: ids }
+      : ids.length
+      ? ids[0]
+      : null
+  }));
+}
+
+function serializeTaxonomy(
+  field: IListField & { 'odata.type': 'SP.Taxonomy.TaxonomyField' },
+  value: ITaxonomyValue | ITaxonomyValue[],
+  fields: IListField[]
+): Promise<Serialized> {
+  const terms = toArray(value);
+  if (terms.some(term => !term || !term.id || !term.label))
+    return invalid(field, value);
+  if (!field.AllowMultipleValues)
+    return Promise.resolve({
+      [getKey(field)]: terms.length
+        ? {
+            __metadata: { type: 'SP.Taxonomy.TaxonomyFieldValue' },
+            Label: terms[0].label,
+            TermGuid: terms[0].id,
+            WssId: -1
+          }
+        : null
+    });
+
+  // Multi-value taxonomy fields are written through their hidden note field
+  const note = fields.find(
+    test => `${test.Id}`.toLowerCase() === `${field.TextField}`.toLowerCase()
+  );
+  if (!note)
+    return Promise.reject(
+      new SPFetcherError(
+        `Hidden note field of ${field.InternalName} was not found`,
+        { code: 'InvalidValue' }
+      )
+    );
+  return Promise.resolve({
+    [getKey(note)]: terms.map(term => `-1;#${term.label}|${term.id}`).join(';#')
+  });
+}
+
+function serializeField(
+  field: IListField,
+  value: any,
+  fields: IListField[],
+  resolveUser: (login: string) => Promise<number>
+): Promise<Serialized> {
+  const key = getKey(field);
+  const empty = value === null || value === undefined;
+  switch (field['odata.type']) {
+    case 'SP.FieldLookup':
+      return serializeLookup(field, value);
+    case 'SP.FieldUser':
+      return serializeLookup(field, value, resolveUser);
+    case 'SP.Taxonomy.TaxonomyField':
+      return serializeTaxonomy(field, value, fields);
+    case 'SP.FieldMultiChoice':
+      return Promise.resolve({ [key]: { results: toArray(value) } });
+    case 'SP.FieldDateTime':
+      if (!empty && !(value instanceof Date) && typeof value !== 'string')
+        return invalid(field, value);
+      return Promise.resolve({
+        [key]:
+          value instanceof Date ? value.toISOString() : empty ? null : value
+      });
+    case 'SP.FieldUrl': {
+      const url: IUrlValue = typeof value === 'string' ? { url: value } : value;
+      if (!empty && !(url && url.url)) return invalid(field, value);
+      return Promise.resolve({
+        [key]: empty
+          ? null
+          : {
+              __metadata: { type: 'SP.FieldUrlValue' },
+              Url: url.url,
+              Description: url.description || url.url
+            }
+      });
+    }
+    case 'SP.FieldGeolocation': {
+      const location: IGeolocationValue = value;
+      if (
+        !empty &&
+        !(
+          typeof location.latitude === 'number' &&
+          typeof location.longitude === 'number'
+        )
+      )
+        return invalid(field, value);
+      return Promise.resolve({
+        [key]: empty
+          ? null
+          : {
+              __metadata: { type: 'SP.FieldGeolocationValue' },
+              Latitude: location.latitude,
+              Longitude: location.longitude,
+              Altitude: location.altitude || 0,
+              Measure: location.measure || 0
+            }
+      });
+    }
+    default:
+      return Promise.resolve({ [key]: value });
+  }
+}
+
+/**
+ * Serialize friendly values to the body of an item write, using the fields
+ * of the list. Keys that are not fields of the list are sent as they are.
+ *
+ * - Lookups and users: ids, `{ id }` or, for users, login names and emails. Written to `${field}Id`.
+ * - Taxonomy: `{ id, label }`. Multiple terms are written to the hidden note field.
+ * - Multi-choice: arrays of choices
+ * - Urls: strings or `{ url, description }`
+ * - Geolocations: `{ latitude, longitude }`
+ * - Dates: Date objects or ISO strings
+ *
+ * @param resolveUser - Get the id of a user by login name or email
+ */
+export function serializeItem(
+  values: { [key: string]: any },
+  fields: IListField[],
+  resolveUser: (login: string) => Promise<number>
+): Promise<Serialized> {
+  return Promise.all(
+    Object.keys(values).map(key => {
+      const field = fields.find(
+        test => test.InternalName === key || test.EntityPropertyName === key
+      );
+      return field
+        ? serializeField(field, values[key], fields, resolveUser)
+        : Promise.resolve({ [key]: values[key] });
+    })
+  ).then(parts => parts.reduce((prev, part) => ({ ...prev, ...part }), {}));
+}
+
+/**
+ * Values of a multi-value field, in verbose or light OData
+ */
+function fromArray(value: any): any[] {
+  return value === null || value === undefined
+    ? []
+    : Array.isArray(value.results)
+    ? value.results
+    : [].concat(value);
+}
+
+function isMulti(field: IListField) {
+  return !!(field as { AllowMultipleValues?: boolean }).AllowMultipleValues;
+}
+
+function getNoteField(field: IListField, fields: IListField[]) {
+  const textField = (field as { TextField?: string }).TextField;
+  return textField
+    ? fields.find(
+        test => `${test.Id}`.toLowerCase() === `${textField}`.toLowerCase()
+      )
+    : undefined;
+}
+
+/**
+ * Get $select and $expand for reading fields as normalized items.
+ * Lookup and user fields are expanded, and the hidden note fields of
+ * taxonomy fields are selected to get their labels.
+ *
+ * @param select - Fields to read. Defaults to all fields that are not hidden.
+ */
+export function getReadQuery(fields: IListField[], select?: string[]) {
+  const targets = select
+    ? fields.filter(field => select.indexOf(field.InternalName) !== -1)
+    : fields.filter(field => !field.Hidden);
+  const lookups = targets.filter(
+    field =>
+      field['odata.type'] === 'SP.FieldLookup' ||
+      field['odata.type'] === 'SP.FieldUser'
+  );
+  const expand = lookups.map(field => field.InternalName);
+  const extra = lookups
+    .map(field =>
+      field['odata.type'] === 'SP.FieldUser'
+        ? ['Id', 'Title', 'EMail']
+        : ['Id', (field as FieldLookup).LookupField || 'Title']
+    )
+    .map((names, idx) => names.map(name => `${expand[idx]}/${name}`))
+    .reduce((prev, names) => prev.concat(names), [])
+    .concat(
+      targets
+        .filter(field => field['odata.type'] === 'SP.Taxonomy.TaxonomyField')
+        .map(field => getNoteField(field, fields))
+        .filter(note => note)
+        .map(note => note.InternalName)
+    );
+  return {
+    select: (select
+      ? select.filter(name => expand.indexOf(name) === -1)
+      : ['*']
+    ).concat(extra),
+    expand
+  };
+}
+
+/**
+ * Turn an item in raw OData into a normalized item, using the fields of its list.
+ *
+ * - Dates: Date objects
+ * - Lookups: `{ id, value }`
+ * - Users: `{ id, email, title }`
+ * - Taxonomy: `{ id, label, path }`
+ * - Urls: `{ url, description }`
+ * - Geolocations: `{ latitude, longitude, altitude, measure }`
+ * - Multi-choice: arrays of choices
+ *
+ * Multi-value fields become arrays. Lookups and users that were not
+ * expanded only get an id.
+ *
+ * @param paths - Paths of terms by term id, see ITerm.PathOfTerm
+ */
+export function normalizeItem(
+  item: { [key: string]: any },
+  fields: IListField[],
+  paths: { [id: string]: string } = {}
+) {
+  return fields.reduce(
+    (normalized, field) => {
+      const key = getKey(field);
+      const value = item[key];
+      switch (field['odata.type']) {
+        case 'SP.FieldLookup':
+        case 'SP.FieldUser': {
+          const expanded = value !== undefined && !value.__deferred;
+          if (!expanded && item[`${key}Id`] === undefined) return normalized;
+          const values = expanded
+            ? fromArray(value).map((lookup: any) =>
+                field['odata.type'] === 'SP.FieldUser'
+                  ? { id: lookup.Id, email: lookup.EMail, title: lookup.Title }
+                  : {
+                      id: lookup.Id,
+                      value:
+                        lookup[(field as FieldLookup).LookupField || 'Title']
+                    }
+              )
+            : fromArray(item[`${key}Id`]).map((id: number) => ({ id }));
+          normalized[key] = isMulti(field) ? values : values[0] || null;
+          return normalized;
+        }
+        case 'SP.Taxonomy.TaxonomyField': {
+          if (value === undefined) return normalized;
+          const note = getNoteField(field, fields);
+          const labels = `${(note && item[getKey(note)]) || ''}`
+            .split(';')
+            .filter(label => label)
+            .reduce(
+              (prev, label) => ({
+                ...prev,
+                [label.split('|')[1]]: label.split('|')[0]
+              }),
+              {} as { [id: string]: string }
+            );
+          const values = fromArray(value).map(
+            (term: any): ITaxonomyValue => ({
+              id: term.TermGuid,
+              label: labels[term.TermGuid] || term.Label,
+              path: paths[`${term.TermGuid}`.toLowerCase()]
+            })
+          );
+          normalized[key] = field.AllowMultipleValues
+            ? values
+            : values[0] || null;
+          return normalized;
+        }
+        case 'SP.FieldDateTime':
+          if (value !== undefined)
+            normalized[key] = value === null ? null : new Date(value);
+          return normalized;
+        case 'SP.FieldUrl':
+          if (value !== undefined)
+            normalized[key] = value
+              ? { url: value.Url, description: value.Description }
+              : null;
+          return normalized;
+        case 'SP.FieldGeolocation':
+          if (value !== undefined)
+            normalized[key] = value
+              ? {
+                  latitude: value.Latitude,
+                  longitude: value.Longitude,
+                  altitude: value.Altitude,
+                  measure: value.Measure
+                }
+              : null;
+          return normalized;
+        case 'SP.FieldMultiChoice':
+          if (value !== undefined) normalized[key] = fromArray(value);
+          return normalized;
+        default:
+          return normalized;
+      }
+    },
+    { ...item }
+  );
+}
+
+/**
+ * Turn a row from RenderListDataAsStream into a normalized item, the same
+ * way as normalizeItem. Dates must be requested in UTC.
+ *
+ * @param paths - Paths of terms by term id, see ITerm.PathOfTerm
+ */
+export function normalizeRow(
+  row: { [key: string]: any },
+  fields: IListField[],
+  paths: { [id: string]: string } = {}
+) {
+  return fields.reduce(
+    (normalized, field) => {
+      const key = field.InternalName;
+      const value = row[key];
+      if (value === undefined) return normalized;
+      const empty = value === null || value === '';
+      switch (field['odata.type']) {
+        case 'SP.FieldLookup':
+        case 'SP.FieldUser': {
+          const values = (empty ? [] : fromArray(value)).map((lookup: any) =>
+            field['odata.type'] === 'SP.FieldUser'
+              ? {
+                  id: Number(lookup.id),
+                  email: lookup.email,
+                  title: lookup.title
+                }
+              : { id: Number(lookup.lookupId), value: lookup.lookupValue }
+          );
+          normalized[key] = isMulti(field) ? values : values[0] || null;
+          return normalized;
+        }
+        case 'SP.Taxonomy.TaxonomyField': {
+          const values = (empty ? [] : fromArray(value)).map(
+            (term: any): ITaxonomyValue => ({
+              id: term.TermID,
+              label: term.Label,
+              path: paths[`${term.TermID}`.toLowerCase()]
+            })
+          );
+          normalized[key] = field.AllowMultipleValues
+            ? values
+            : values[0] || null;
+          return normalized;
+        }
+        case 'SP.FieldDateTime':
+          normalized[key] = empty ? null : new Date(value);
+          return normalized;
+        case 'SP.FieldNumber':
+        case 'SP.FieldCurrency': {
+          const raw =
+            row[`${key}.`] !== undefined ? row[`${key}.`] : `${value}`;
+          normalized[key] = empty ? null : Number(`${raw}`.replace(/,/g, ''));
+          return normalized;
+        }
+        case 'SP.FieldUrl':
+          normalized[key] = empty
+            ? null
+            : { url: value, description: row[`${key}.desc`] };
+          return normalized;
+        case 'SP.FieldMultiChoice':
+          normalized[key] = Array.isArray(value)
+            ? value
+            : `${value || ''}`.split(';#').filter(choice => choice);
+          return normalized;
+        default:
+          if (field.TypeAsString === 'Boolean')
+            normalized[key] = empty
+              ? null
+              : row[`${key}.value`] !== undefined
+              ? row[`${key}.value`] === '1'
+              : value === true || value === '1' || value === 'Yes';
+          else if (key === 'ID' || field.TypeAsString === 'Counter')
+            normalized[key] = Number(value);
+          return normalized;
+      }
+    },
+    { ...row, Id: Number(row.ID) }
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Largest archive the writer can create. Zip64 is not supported.
+ */
+export const MAX_ZIP_SIZE = 0xffffffff;
+
+let crcTable: number[];
+
+function getCrcTable() {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable.push(c >>> 0);
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 checksum of data, as used by zip
+ */
+export function crc32(data: Uint8Array) {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++)
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function encodeUtf8(value: string) {
+  return new Uint8Array(
+    unescape(encodeURIComponent(value))
+      .split('')
+      .map(char => char.charCodeAt(0))
+  );
+}
+
+/**
+ * Time and date of a Date in MS-DOS format
+ */
+function toDosDateTime(date: Date) {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+interface IZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+  folder: boolean;
+}
+
+/**
+ * Writes files into a zip archive, without compression.
+ * Files are added to a Blob as they arrive, so only one file at a time
+ * needs to be held as an ArrayBuffer.
+ *
+ * @example
+ * const zip = new ZipWriter();
+ * zip.add('docs/report.txt', buffer, new Date());
+ * const blob = zip.toBlob();
+ */
+export class ZipWriter {
+  private parts: BlobPart[];
+  private entries: IZipEntry[];
+  private offset: number;
+
+  constructor() {
+    this.parts = [];
+    this.entries = [];
+    this.offset = 0;
+  }
+
+  /**
+   * Number of bytes written so far
+   */
+  public get size() {
+    return this.offset;
+  }
+
+  /**
+   * Add a file. Use forward slashes to put it in folders.
+   */
+  public add(path: string, data: ArrayBuffer, modified: Date = new Date()) {
+    const bytes = new Uint8Array(data);
+    this.write(path.replace(/^\/+/, ''), bytes, crc32(bytes), modified, false);
+  }
+
+  /**
+   * Add an empty folder
+   */
+  public addFolder(path: string, modified: Date = new Date()) {
+    this.write(
+      `${path.replace(/^\/+|\/+$/g, '')}/`,
+      new Uint8Array(0),
+      0,
+      modified,
+      true
+    );
+  }
+
+  /**
+   * Finish the archive
+   */
+  public toBlob() {
+    const start = this.offset;
+    const directory = this.entries.map(entry => {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true);
+      header.setUint16(4, 20, true);
+      header.setUint16(6, 20, true);
+      header.setUint16(8, 0x0800, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, entry.time, true);
+      header.setUint16(14, entry.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      header.setUint32(38, entry.folder ? 0x10 : 0, true);
+      header.setUint32(42, entry.offset, true);
+      return [header.buffer, entry.name];
+    });
+    const size = directory.reduce(
+      (prev, [header, name]) =>
+        prev + (header as ArrayBuffer).byteLength + (name as Uint8Array).length,
+      0
+    );
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, size, true);
+    end.setUint32(16, start, true);
+    return new Blob(
+      this.parts.concat(
+        directory.reduce((prev, part) => prev.concat(part), []),
+        [end.buffer]
+      ),
+      { type: 'application/zip' }
+    );
+  }
+
+  private write(
+    path: string,
+    bytes: Uint8Array,
+    crc: number,
+    modified: Date,
+    folder: boolean
+  ) {
+    const name = encodeUtf8(path);
+    const { time, date } = toDosDateTime(modified);
+    if (
+      this.entries.length >= 0xffff ||
+      this.offset + 30 + name.length + bytes.length > MAX_ZIP_SIZE
+    )
+      throw new RangeError('The archive is too large');
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 0x0800, true);
+    header.setUint16(8, 0, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, bytes.length, true);
+    header.setUint32(22, bytes.length, true);
+    header.setUint16(26, name.length, true);
+    this.entries.push({
+      name,
+      crc,
+      size: bytes.length,
+      offset: this.offset,
+      time,
+      date,
+      folder
+    });
+    this.parts.push(header.buffer, name, new Blob([bytes]));
+    this.offset += 30 + name.length + bytes.length;
+  }
+}
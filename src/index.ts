@@ -1,2 +1,24 @@
 export { SPFetcherBase } from './SPFetcher.base';
 export * from './interfaces';
+export * from './SPFetcher.filter';
+export * from './SPFetcher.caml';
+export * from './SPFetcher.lists';
+export { ZipWriter } from './SPFetcher.zip';
+export { buildTermTree, getTermLabels } from './SPFetcher.taxonomy';
+export {
+  getReadQuery,
+  normalizeItem,
+  normalizeRow,
+  serializeItem,
+  SPNormalizedItem,
+  SPReadValue,
+  SPWriteValue
+} from './SPFetcher.values';
+export {
+  SPFetcherError,
+  SPNotFoundError,
+  SPAccessDeniedError,
+  SPThrottledError,
+  SPAbortError
+} from './SPFetcher.errors';
+export { MemoryCacheStore, WebStorageCacheStore } from './SPFetcher.cache';
@@ -38,6 +38,7 @@ export interface ITerm {
     }[];
   };
   LocalCustomProperties: any;
+  CustomProperties?: any;
   Name: string;
   Parent: {
     _ObjectType_: string;
@@ -287,3 +288,759 @@ export interface IListFields {
 }
 
 export type IListField = IListFields[keyof IListFields];
+
+export interface IRetryPolicy {
+  /**
+   * Maximum number of attempts, including the first one
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay before the first retry (ms). Doubled for every following attempt.
+   */
+  baseDelay: number;
+
+  /**
+   * Upper limit for the computed backoff delay (ms)
+   */
+  maxDelay: number;
+
+  /**
+   * Random spread applied to the backoff delay, as a fraction (0 - 1)
+   */
+  jitter: number;
+
+  /**
+   * Response status codes that should be retried
+   */
+  statusCodes: number[];
+}
+
+/**
+ * The parts of a response shared by fetch and the spHttpClient
+ */
+export type IResponse = Pick<Response, 'status' | 'statusText' | 'headers'> & {
+  clone(): IResponse;
+};
+
+export interface IRequestOptions {
+  retry?: Partial<IRetryPolicy>;
+
+  /**
+   * Requests with a higher priority are sent first when the concurrency limit is reached.
+   * Only applies to raw requests, i.e. fetch, get, post and webs from Web().
+   * Utility methods send their requests with normal priority.
+   */
+  priority?: RequestPriority;
+
+  /**
+   * Cancels the request. The caller is rejected with an SPAbortError.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * The request does not change any data, even though it is not a GET
+   */
+  readOnly?: boolean;
+}
+
+export interface IFetcherOptions {
+  /**
+   * Reject initialization if it takes longer than this (ms)
+   */
+  timeout?: number;
+  retry?: Partial<IRetryPolicy>;
+  batch?: Partial<IBatchOptions>;
+  cache?: Partial<ICacheOptions>;
+  concurrency?: Partial<IConcurrencyOptions>;
+
+  /**
+   * Send PnP requests through this instead of the global fetch, e.g. an SPEmulator
+   */
+  transport?: Transport;
+
+  /**
+   * Urls of sites, overriding the ones derived from the context. Server
+   * relative urls are resolved against `base`.
+   */
+  sites?: { [key: string]: string };
+
+  /**
+   * Alternative names for sites, pointing to keys in `sites` or to urls
+   */
+  aliases?: { [alias: string]: string };
+
+  /**
+   * Record every request and response, or replay recorded ones, e.g. an SPRecorder
+   */
+  recorder?: IRecorder;
+}
+
+export interface IPagingProgress {
+  /**
+   * Number of pages loaded so far
+   */
+  pages: number;
+
+  /**
+   * Number of items loaded so far
+   */
+  items: number;
+
+  /**
+   * Number of items in the library. An upper bound when a filter is used.
+   */
+  total: number;
+
+  /**
+   * Whether paging has fallen back to ID ranges because of the list view threshold
+   */
+  byIdRange: boolean;
+}
+
+export interface IBatchOptions {
+  /**
+   * Maximum number of requests in a batch. Full batches are executed right away.
+   */
+  maxSize: number;
+
+  /**
+   * Delay before a batch is executed (ms), counted from its first request
+   */
+  delay: number;
+}
+
+export type IBatchResult<R = any> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; reason: any };
+
+/**
+ * A request as seen by the fetcher's transport
+ */
+export interface IRequestInfo {
+  url: string;
+  method: string;
+  body?: any;
+  headers?: HeadersInit;
+}
+
+export interface ICacheEntry<R = any> {
+  value: R;
+  expires: number;
+  method: string;
+  site: string;
+  list?: string;
+  key?: string;
+}
+
+/**
+ * Storage backend for the response cache
+ */
+export interface ICacheStore {
+  get(id: string): ICacheEntry;
+  set(id: string, entry: ICacheEntry): void;
+  delete(id: string): void;
+  keys(): string[];
+}
+
+export interface ICacheOptions {
+  store: ICacheStore;
+
+  /**
+   * Time to live per method (ms). 0 disables caching for that method.
+   */
+  ttl: { [method: string]: number };
+}
+
+/**
+ * Entries to invalidate. Entries matching all given properties are removed.
+ * Sites may be given as a key of `sites` or as an url.
+ */
+export interface ICacheFilter {
+  site?: string;
+  list?: string;
+  method?: string;
+  key?: string;
+}
+
+export type FetcherStatus =
+  | 'not initialized'
+  | 'initializing'
+  | 'ready'
+  | 'error';
+
+/**
+ * Events emitted by the fetcher, by name
+ */
+export interface IFetcherEvents {
+  status: { status: FetcherStatus; error?: any };
+  requestStart: { id: number; url: string; method: string };
+  requestEnd: {
+    id: number;
+    url: string;
+    method: string;
+    status: number;
+    duration: number;
+    error?: any;
+  };
+  retry: {
+    url: string;
+    method: string;
+    attempt: number;
+    delay: number;
+    status: number;
+  };
+  batchFlush: { site: string; size: number; failed: number; duration: number };
+  cacheHit: { method: string; site: string; list?: string; key?: string };
+  uploadProgress: IUploadProgress;
+}
+
+export interface IRequestStats {
+  count: number;
+  errors: number;
+
+  /**
+   * Throttled responses (429/503), including the ones that succeeded on retry
+   */
+  throttled: number;
+  totalDuration: number;
+  averageDuration: number;
+  maxDuration: number;
+}
+
+export interface IBatchStats {
+  count: number;
+  requests: number;
+  failed: number;
+  maxSize: number;
+  averageSize: number;
+}
+
+/**
+ * Serializable snapshot of what the fetcher has been doing
+ */
+export interface IFetcherDiagnostics {
+  generated: string;
+  since: string;
+  status: FetcherStatus;
+  sites: { [site: string]: IRequestStats };
+  endpoints: { [endpoint: string]: IRequestStats };
+  batches: IBatchStats;
+  retries: number;
+  cacheHits: number;
+  inflight: number;
+  queuedRequests: number;
+  pendingBatchRequests: number;
+  recentErrors: {
+    time: string;
+    url: string;
+    method: string;
+    status: number;
+    message: string;
+  }[];
+}
+
+export interface ISPFetcherErrorDetails {
+  /**
+   * HTTP status of the failed request
+   */
+  status?: number;
+
+  /**
+   * SharePoint error code, e.g. "-2130575338, Microsoft.SharePoint.SPException"
+   */
+  code?: string;
+  correlationId?: string;
+  url?: string;
+
+  /**
+   * Key of the site in `sites`
+   */
+  site?: string;
+
+  /**
+   * The original error
+   */
+  cause?: any;
+}
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface IConcurrencyOptions {
+  /**
+   * Maximum number of requests in flight in total
+   */
+  global: number;
+
+  /**
+   * Maximum number of requests in flight per site
+   */
+  perSite: number;
+}
+
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface IEmulatorField {
+  InternalName: string;
+  Title?: string;
+  TypeAsString?: string;
+  Id?: string;
+  [key: string]: any;
+}
+
+export interface IEmulatorContentType {
+  StringId: string;
+  Name?: string;
+
+  /**
+   * Internal names of the fields in this content type. Defaults to all fields of its parent.
+   */
+  fields?: string[];
+}
+
+export interface IEmulatorList {
+  Title: string;
+  Id?: string;
+
+  /**
+   * 100 for lists, 101 for document libraries
+   */
+  BaseTemplate?: number;
+
+  /**
+   * Server relative url of the root folder. Defaults to the title under the
+   * url of the web.
+   */
+  url?: string;
+  fields?: IEmulatorField[];
+  contentTypes?: IEmulatorContentType[];
+  items?: { [key: string]: any }[];
+}
+
+export interface IEmulatorWeb {
+  /**
+   * Absolute url of the web
+   */
+  url: string;
+  Title?: string;
+  Description?: string;
+  Id?: string;
+  properties?: { [key: string]: any };
+  storageEntities?: { [key: string]: string };
+  fields?: IEmulatorField[];
+  contentTypes?: IEmulatorContentType[];
+  lists?: IEmulatorList[];
+}
+
+export interface ITestContextOptions {
+  /**
+   * Absolute url of the current site collection
+   */
+  siteUrl: string;
+
+  /**
+   * Absolute url of the current web. Defaults to siteUrl.
+   */
+  webUrl?: string;
+
+  /**
+   * Id of the current list
+   */
+  listId?: string;
+  user?: { displayName: string; email: string; loginName: string };
+}
+
+export interface IHarHeader {
+  name: string;
+  value: string;
+}
+
+export interface IHarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    headers: IHarHeader[];
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: IHarHeader[];
+    content: { mimeType: string; text: string };
+  };
+}
+
+/**
+ * Recorded traffic, in the HTTP Archive (HAR) format
+ */
+export interface IHarFixture {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: IHarEntry[];
+  };
+}
+
+export type RecorderMode = 'record' | 'replay';
+
+export interface IRecorder {
+  /**
+   * Perform the request and record it, or serve a recorded response instead
+   */
+  handle(
+    info: IRequestInfo,
+    request: () => Promise<IResponse>
+  ): Promise<IResponse>;
+}
+
+export interface IListRegistration {
+  /**
+   * Key in `sites`, alias or url of the site holding the list. Defaults to the default site.
+   */
+  site?: string;
+  title?: string;
+  id?: string;
+}
+
+/**
+ * Item interfaces of registered lists, by key
+ */
+export type SPListRegistry = { [key: string]: any };
+
+export interface ILookupValue {
+  id: number;
+  value?: string;
+}
+
+export interface IUserValue {
+  id: number;
+  email?: string;
+  title?: string;
+}
+
+export interface ITaxonomyValue {
+  /**
+   * Id of the term
+   */
+  id: string;
+  label: string;
+  path?: string;
+}
+
+export interface IUrlValue {
+  url: string;
+  description?: string;
+}
+
+export interface IGeolocationValue {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  measure?: number;
+}
+
+export interface IListDataPage<R = any> {
+  items: R[];
+
+  /**
+   * Paging token of the next page, if there is one
+   */
+  next?: string;
+
+  /**
+   * Paging token of the previous page, if there is one
+   */
+  previous?: string;
+}
+
+/**
+ * What to do when writing a file to a path that already holds one
+ *
+ * - overwrite: Replace the existing file
+ * - rename: Add a number to the name, e.g. "report (1).docx"
+ * - fail: Fail with an SPFetcherError with code `FileExists`
+ */
+export type ConflictBehavior = 'overwrite' | 'rename' | 'fail';
+
+export interface IUploadProgress {
+  /**
+   * Server relative url of the file
+   */
+  url: string;
+
+  /**
+   * Number of bytes uploaded so far
+   */
+  loaded: number;
+  total: number;
+}
+
+export interface IUploadOptions {
+  /**
+   * Defaults to fail
+   */
+  conflict?: ConflictBehavior;
+
+  /**
+   * Files larger than this are uploaded in chunks of this size (bytes)
+   */
+  chunkSize?: number;
+
+  /**
+   * Field values to set once uploaded. Serialized per field type, see serializeItem.
+   */
+  metadata?: { [key: string]: any };
+
+  /**
+   * Called after every chunk
+   */
+  onProgress?: (progress: IUploadProgress) => void;
+  site?: string;
+  signal?: AbortSignal;
+}
+
+export interface ICopyOptions {
+  /**
+   * Site the sources are on. Defaults to the default site.
+   */
+  site?: string;
+
+  /**
+   * Site the destination is on. Defaults to site.
+   */
+  targetSite?: string;
+
+  /**
+   * Defaults to fail
+   */
+  conflict?: ConflictBehavior;
+
+  /**
+   * Copy the version history of files. Defaults to false.
+   */
+  keepVersions?: boolean;
+
+  /**
+   * How often to ask SharePoint about the progress of a job (ms)
+   */
+  pollInterval?: number;
+
+  /**
+   * Called every time a job reports progress
+   */
+  onProgress?: (progress: ICopyProgress) => void;
+
+  /**
+   * Stops waiting for the jobs. Jobs that have started are not cancelled.
+   */
+  signal?: AbortSignal;
+}
+
+export interface ICopyProgress {
+  /**
+   * Number of sources that are done, or failed
+   */
+  done: number;
+  total: number;
+}
+
+export interface ICopyResult {
+  /**
+   * Absolute url of the source
+   */
+  source: string;
+
+  /**
+   * Absolute url of the copy, if known
+   */
+  target?: string;
+  error?: any;
+}
+
+/**
+ * A copy or move job, as created by SharePoint
+ */
+export interface ICopyJobInfo {
+  EncryptionKey: string;
+  JobId: string;
+  JobQueueUri: string;
+}
+
+export interface IDownloadOptions {
+  /**
+   * Number of files downloaded at once. Defaults to 4.
+   */
+  concurrency?: number;
+
+  /**
+   * Skip files that the user can not read, or that no longer exist, instead
+   * of failing. Defaults to true.
+   */
+  skipUnreadable?: boolean;
+
+  /**
+   * Called after every file
+   */
+  onProgress?: (progress: IDownloadProgress) => void;
+  site?: string;
+  signal?: AbortSignal;
+}
+
+export interface IDownloadProgress {
+  /**
+   * Number of files added to the archive, or skipped
+   */
+  done: number;
+  total: number;
+  skipped: number;
+
+  /**
+   * Size of the archive so far (bytes)
+   */
+  bytes: number;
+}
+
+export interface IDownloadResult {
+  /**
+   * The zip archive
+   */
+  blob: Blob;
+
+  /**
+   * Number of files in the archive
+   */
+  files: number;
+  skipped: { url: string; error: any }[];
+}
+
+/**
+ * What a selected row is: a file or folder in a library, a folder in a
+ * list, or an item in a list
+ */
+export type SelectionKind = 'file' | 'folder' | 'item';
+
+export interface ISelectionOptions {
+  /**
+   * Id of the list the rows belong to. Defaults to the current list.
+   */
+  list?: string;
+
+  /**
+   * Site of the list. Defaults to the current web.
+   */
+  site?: string;
+
+  /**
+   * Columns to read into values
+   */
+  select?: string[];
+
+  /**
+   * Normalize values per field type, see normalizeItem
+   */
+  normalize?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * A row selected in a list view
+ */
+export interface ISelectedItem<V = { [key: string]: any }> {
+  kind: SelectionKind;
+  listId: string;
+  id: number;
+
+  /**
+   * Absolute url of the web of the list
+   */
+  webUrl: string;
+
+  /**
+   * Server relative url (FileRef)
+   */
+  url: string;
+  name: string;
+  contentTypeId: string;
+  contentType: string;
+
+  /**
+   * Values of the selected columns
+   */
+  values: V;
+}
+
+export interface ITermStore {
+  Id: string;
+  Name: string;
+  DefaultLanguage: number;
+  Languages: number[];
+  IsOnline: boolean;
+}
+
+export interface ITermGroup {
+  Id: string;
+  Name: string;
+  Description: string;
+  IsSiteCollectionGroup: boolean;
+  IsSystemGroup: boolean;
+}
+
+export interface ITermSetInfo {
+  Id: string;
+  Name: string;
+  Description: string;
+  IsOpenForTermCreation: boolean;
+  CustomSortOrder: string;
+}
+
+export interface ITermLabel {
+  /**
+   * LCID, e.g. 1033
+   */
+  language: number;
+  value: string;
+
+  /**
+   * The label is the default label of the term for language
+   */
+  isDefault: boolean;
+}
+
+/**
+ * A term in the tree of a termset
+ */
+export interface ITermNode {
+  id: string;
+  name: string;
+  path: string;
+
+  /**
+   * Labels in all languages, including synonyms
+   */
+  labels: ITermLabel[];
+  isDeprecated: boolean;
+  isAvailableForTagging: boolean;
+
+  /**
+   * Custom properties, overridden by local custom properties
+   */
+  properties: { [key: string]: string };
+  children: ITermNode[];
+  term: ITerm;
+}
+
+export interface ITaxonomyOptions {
+  /**
+   * Id of the term store. Defaults to the default keywords term store.
+   */
+  store?: string;
+  site?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Where a term goes: below a term, or at the root of a termset
+ */
+export type ITermTarget = { term: string } | { termset: string };
@@ -0,0 +1,14 @@
+export { createTestContext } from './SPFetcher.testing';
+export { SPEmulator, parseFilter } from './SPFetcher.emulator';
+export {
+  IEmulatorContentType,
+  IEmulatorField,
+  IEmulatorList,
+  IEmulatorWeb,
+  IHarEntry,
+  IHarFixture,
+  ITestContextOptions,
+  RecorderMode,
+  Transport
+} from './interfaces';
+export { SPRecorder } from './SPFetcher.recorder';
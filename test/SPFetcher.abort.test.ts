@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { SPAbortError } from '../src';
+import { SignalRegistry } from '../src/SPFetcher.abort';
+import { createFetcher } from './helpers';
+
+describe('SignalRegistry', () => {
+  it('keeps the id of a signal while it is held', () => {
+    const registry = new SignalRegistry();
+    const signal = new AbortController().signal;
+    const id = registry.register(signal);
+    expect(registry.register(signal)).toBe(id);
+    expect(registry.register(new AbortController().signal)).not.toBe(id);
+    registry.release(id);
+    expect(registry.get(id)).toBe(signal);
+    registry.release(id);
+    expect(registry.get(id)).toBeUndefined();
+    expect(registry.register(signal)).toBe(id);
+    expect(registry.get(id)).toBe(signal);
+  });
+});
+
+describe('signals of PnP requests', () => {
+  it('are passed on, and forgotten once their call settles', async () => {
+    const signals: AbortSignal[] = [];
+    const { fetcher } = await createFetcher(
+      { lists: [{ Title: 'Tasks', items: [{ Title: 'First' }] }] },
+      (url, init, next) => {
+        if (/\/(fields|items)/i.test(url)) signals.push(init.signal);
+        return next(url, init);
+      }
+    );
+    fetcher.registerList('Tasks', { title: 'Tasks' });
+    const signal = new AbortController().signal;
+    const list = await fetcher.getListByTitle('Tasks', undefined, signal);
+    await fetcher.getListFields(list, signal);
+    await fetcher.list('Tasks').getById(1, undefined, signal);
+    expect(signals).toEqual([signal, signal]);
+    expect(fetcher['signals']['signals']).toEqual({});
+  });
+
+  it('are passed on to the requests of every page', async () => {
+    const signals: AbortSignal[] = [];
+    const { fetcher } = await createFetcher(
+      {
+        lists: [
+          {
+            Title: 'Documents',
+            BaseTemplate: 101,
+            items: [1, 2, 3].map(id => ({ Title: `Doc ${id}` }))
+          }
+        ]
+      },
+      (url, init, next) => {
+        if (/\/items/i.test(url)) signals.push(init.signal);
+        return next(url, init);
+      }
+    );
+    const signal = new AbortController().signal;
+    const pages = fetcher.iterateAllItems(
+      undefined,
+      'file',
+      ['Title'],
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      signal,
+      false,
+      2
+    );
+    expect((await pages.next()).value).toHaveLength(2);
+    expect(fetcher['signals']['signals']).toEqual({});
+    expect((await pages.next()).value).toHaveLength(1);
+    expect(signals).toEqual([signal, signal]);
+  });
+
+  it('reject requests of a web from Web() once its signal aborts', async () => {
+    const { fetcher } = await createFetcher();
+    const controller = new AbortController();
+    const web = await fetcher.Web('default', false, {
+      signal: controller.signal
+    });
+    await web.get();
+    controller.abort();
+    await expect(web.get()).rejects.toBeInstanceOf(SPAbortError);
+    expect(fetcher['signals']['signals']).toEqual({});
+  });
+});
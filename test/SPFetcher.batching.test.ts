@@ -0,0 +1,188 @@
+import { IWeb, SPBatch } from '@pnp/sp/presets/all';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SPAbortError } from '../src';
+import { SPBatchScheduler } from '../src/SPFetcher.batching';
+import { createFetcher } from './helpers';
+
+const tasks = {
+  Title: 'Tasks',
+  items: [{ Title: 'First' }, { Title: 'Second' }, { Title: 'Third' }]
+};
+
+/**
+ * A web whose batches record the requests added to them
+ */
+function createWeb() {
+  const batches: { requests: number[]; executed: boolean }[] = [];
+  const web = {
+    createBatch: () => {
+      const batch = { requests: [] as number[], executed: false };
+      batches.push(batch);
+      return ({
+        add: (value: number) => {
+          batch.requests.push(value);
+          return Promise.resolve(value);
+        },
+        execute: () => {
+          batch.executed = true;
+          return Promise.resolve();
+        }
+      } as any) as SPBatch;
+    }
+  };
+  return { web: (web as any) as IWeb, batches };
+}
+
+const request = (value: number) => (batch: SPBatch) =>
+  (batch as any).add(value) as Promise<number>;
+
+describe('SPBatchScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('executes a batch once its delay has passed', async () => {
+    vi.useFakeTimers();
+    const { web, batches } = createWeb();
+    const onExecuted = vi.fn();
+    const scheduler = new SPBatchScheduler(
+      { maxSize: 10, delay: 50 },
+      onExecuted
+    );
+    const getWeb = () => Promise.resolve(web);
+    const results = [1, 2].map(n => scheduler.add('site', getWeb, request(n)));
+    expect(scheduler.pending).toBe(2);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(await Promise.all(results)).toEqual([1, 2]);
+    expect(batches).toEqual([{ requests: [1, 2], executed: true }]);
+    expect(onExecuted).toHaveBeenCalledWith(
+      'site',
+      [
+        { status: 'fulfilled', value: 1 },
+        { status: 'fulfilled', value: 2 }
+      ],
+      expect.any(Number)
+    );
+  });
+
+  it('executes full batches right away, and one batch per site', async () => {
+    const { web, batches } = createWeb();
+    const scheduler = new SPBatchScheduler({ maxSize: 2, delay: 10000 });
+    const getWeb = () => Promise.resolve(web);
+    const b = scheduler.add('b', getWeb, request(2));
+    await Promise.all([
+      scheduler.add('a', getWeb, request(1)),
+      scheduler.add('a', getWeb, request(3))
+    ]);
+    expect(batches.filter(batch => batch.executed)).toEqual([
+      { requests: [1, 3], executed: true }
+    ]);
+    expect(scheduler.pending).toBe(1);
+    await scheduler.flush('b');
+    expect(await b).toBe(2);
+    expect(batches.every(batch => batch.executed)).toBe(true);
+  });
+
+  it('removes requests whose signal aborts before execution', async () => {
+    const { web, batches } = createWeb();
+    const scheduler = new SPBatchScheduler({ maxSize: 10, delay: 10000 });
+    const getWeb = () => Promise.resolve(web);
+    const controller = new AbortController();
+    const aborted = scheduler.add('a', getWeb, request(1), controller.signal);
+    const kept = scheduler.add('a', getWeb, request(2));
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(SPAbortError);
+    expect(await scheduler.flush()).toEqual([
+      { status: 'fulfilled', value: 2 }
+    ]);
+    expect(await kept).toBe(2);
+    expect(batches[0].requests).toEqual([2]);
+  });
+
+  it('rejects pending requests when cleared', async () => {
+    const { web } = createWeb();
+    const scheduler = new SPBatchScheduler({ maxSize: 10, delay: 10000 });
+    const result = scheduler.add('a', () => Promise.resolve(web), request(1));
+    const error = new Error('reset');
+    scheduler.clear(error);
+    await expect(result).rejects.toBe(error);
+    expect(scheduler.pending).toBe(0);
+  });
+
+  it('hands out the pending batch to add requests to directly', async () => {
+    const { web, batches } = createWeb();
+    const scheduler = new SPBatchScheduler({ maxSize: 10, delay: 10000 });
+    const result = scheduler.add('a', () => Promise.resolve(web), request(1));
+    const batch = scheduler.reserve('a', web);
+    expect(scheduler.reserve('a', web)).toBe(batch);
+    expect(scheduler.pending).toBe(3);
+    await scheduler.flush();
+    expect(await result).toBe(1);
+    expect(batches).toHaveLength(1);
+    expect(batches[0].executed).toBe(true);
+  });
+});
+
+describe('inBatch', () => {
+  it('sends the requests of a site in one $batch request', async () => {
+    const { fetcher, emulator } = await createFetcher({ lists: [tasks] });
+    const list = await fetcher.getListByTitle('Tasks');
+    const flushed: number[] = [];
+    fetcher.on('batchFlush', ({ size }) => flushed.push(size));
+    const items = Promise.all(
+      [1, 2, 3].map(id =>
+        fetcher.inBatch(batch =>
+          list.items.getById(id).select('Title').inBatch(batch).get()
+        )
+      )
+    );
+    await fetcher.flush();
+    expect((await items).map(item => item.Title)).toEqual([
+      'First',
+      'Second',
+      'Third'
+    ]);
+    expect(flushed).toEqual([3]);
+    expect(
+      emulator.requests.filter(({ url }) => /\$batch/.test(url))
+    ).toHaveLength(1);
+    expect(emulator.requests.some(({ url }) => /items\(\d\)/i.test(url))).toBe(
+      false
+    );
+  });
+
+  it('still serves the deprecated autoBatch from the shared batches', async () => {
+    const { fetcher, emulator } = await createFetcher({ lists: [tasks] });
+    const list = await fetcher.getListByTitle('Tasks');
+    const getBatch = await fetcher.autoBatch(10);
+    const items = Promise.all(
+      [1, 2].map(id =>
+        list.items.getById(id).select('Title').inBatch(getBatch()).get()
+      )
+    );
+    await fetcher.flush();
+    expect((await items).map(item => item.Title)).toEqual(['First', 'Second']);
+    expect(
+      emulator.requests.filter(({ url }) => /\$batch/.test(url))
+    ).toHaveLength(1);
+  });
+
+  it('still accepts the timeout of getFieldInfo', async () => {
+    const { fetcher } = await createFetcher({
+      lists: [
+        {
+          ...tasks,
+          fields: [{ InternalName: 'Status', TypeAsString: 'Choice' }],
+          contentTypes: [
+            { StringId: '0x0100AB', Name: 'Task', fields: ['Title', 'Status'] }
+          ]
+        }
+      ]
+    });
+    const field = await fetcher.getFieldInfo(
+      { list: 'Tasks', name: 'Status' },
+      10
+    );
+    expect(field.InternalName).toBe('Status');
+  });
+});
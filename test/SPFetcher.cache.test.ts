@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  getUrlScope,
+  getWrites,
+  MemoryCacheStore,
+  SPFetcherCache
+} from '../src/SPFetcher.cache';
+
+const site = 'https://contoso.sharepoint.com/sites/Dev';
+
+describe('getUrlScope', () => {
+  it('reads the site and list of every way to address a list', () => {
+    [
+      `${site}/_api/web/lists/getByTitle('Tasks')/items`,
+      `${site}/_api/web/lists/GetById('Tasks')`,
+      `${site}/_api/web/lists('Tasks')/fields`,
+      `${site}/_api/Web/Lists(guid'Tasks')/Items(1)`
+    ].forEach(url =>
+      expect(getUrlScope(url)).toEqual({
+        site: 'https://contoso.sharepoint.com/sites/dev',
+        list: 'tasks'
+      })
+    );
+  });
+
+  it('leaves out the list of web requests', () => {
+    expect(getUrlScope(`${site}/_api/web/fields`)).toEqual({
+      site: 'https://contoso.sharepoint.com/sites/dev',
+      list: undefined
+    });
+  });
+});
+
+describe('getWrites', () => {
+  it('returns the urls a request changes', () => {
+    const url = `${site}/_api/web/lists('Tasks')/items`;
+    expect(getWrites({ url, method: 'GET' })).toEqual([]);
+    expect(getWrites({ url, method: 'POST' })).toEqual([url]);
+    expect(
+      getWrites({ url: `${site}/_api/contextinfo`, method: 'POST' })
+    ).toEqual([]);
+  });
+
+  it('reads the writes inside a batch', () => {
+    expect(
+      getWrites({
+        url: `${site}/_api/$batch`,
+        method: 'POST',
+        body: [
+          `GET ${site}/_api/web HTTP/1.1`,
+          `MERGE ${site}/_api/web/lists('Tasks')/items(1) HTTP/1.1`
+        ].join('\n')
+      })
+    ).toEqual([`${site}/_api/web/lists('Tasks')/items(1)`]);
+  });
+});
+
+describe('SPFetcherCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createCache = () =>
+    new SPFetcherCache({
+      store: new MemoryCacheStore(),
+      ttl: { getListFields: 1000 }
+    });
+
+  it('serves values until they expire', async () => {
+    vi.useFakeTimers();
+    const cache = createCache();
+    const load = vi.fn(() => Promise.resolve(['Title']));
+    const url = `${site}/_api/web/lists('Tasks')`;
+    await cache.get('getListFields', url, load);
+    expect(await cache.get('getListFields', url, load)).toEqual(['Title']);
+    expect(load).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1001);
+    await cache.get('getListFields', url, load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache methods without a time to live', async () => {
+    const cache = createCache();
+    const load = vi.fn(() => Promise.resolve({}));
+    await cache.get('getProperties', `${site}/_api/web`, load);
+    await cache.get('getProperties', `${site}/_api/web`, load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidates the entries of a list that is written to', async () => {
+    const cache = createCache();
+    const load = vi.fn(() => Promise.resolve([]));
+    await cache.get('getListFields', `${site}/_api/web/lists('Tasks')`, load);
+    await cache.get('getListFields', `${site}/_api/web/lists('Notes')`, load);
+    cache.invalidateRequest({
+      url: `${site}/_api/web/lists/getByTitle('Tasks')/fields`,
+      method: 'POST'
+    });
+    await cache.get('getListFields', `${site}/_api/web/lists('Tasks')`, load);
+    await cache.get('getListFields', `${site}/_api/web/lists('Notes')`, load);
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { createCaml, createViewXml, SPCaml } from '../src';
+import { createFetcher } from './helpers';
+
+describe('SPCamlBuilder', () => {
+  const c = createCaml();
+
+  it('builds conditions with typed and escaped values', () => {
+    expect(`${c.eq('Title', "Tom & Jerry's")}`).toBe(
+      '<Eq><FieldRef Name="Title" /><Value Type="Text">Tom &amp; Jerry&apos;s</Value></Eq>'
+    );
+    expect(`${c.geq('Id', 5)}`).toBe(
+      '<Geq><FieldRef Name="ID" /><Value Type="Counter">5</Value></Geq>'
+    );
+    expect(`${c.lt('Due', new Date('2020-01-01T00:00:00.000Z'))}`).toBe(
+      '<Lt><FieldRef Name="Due" /><Value Type="DateTime" IncludeTimeValue="TRUE" StorageTZ="TRUE">2020-01-01T00:00:00.000Z</Value></Lt>'
+    );
+    expect(`${c.lookupId('AssignedTo', 7)}`).toBe(
+      '<Eq><FieldRef Name="AssignedTo" LookupId="TRUE" /><Value Type="Integer">7</Value></Eq>'
+    );
+    expect(`${c.in('Priority', [1, 2])}`).toBe(
+      '<In><FieldRef Name="Priority" /><Values><Value Type="Number">1</Value><Value Type="Number">2</Value></Values></In>'
+    );
+  });
+
+  it('nests conditions combined with and and or', () => {
+    const a = c.isNull('A');
+    const b = c.isNotNull('B');
+    expect(`${a.and(b, c.eq('C', true))}`).toBe(
+      '<And><IsNull><FieldRef Name="A" /></IsNull><And><IsNotNull><FieldRef Name="B" /></IsNotNull><Eq><FieldRef Name="C" /><Value Type="Boolean">1</Value></Eq></And></And>'
+    );
+    expect(`${c.or(a)}`).toBe(`${a}`);
+    expect(`${SPCaml.from([])}`).toBe('');
+  });
+});
+
+describe('createViewXml', () => {
+  it('builds the scope, query, fields and row limit of a view', () => {
+    expect(
+      createViewXml({
+        where: createCaml().eq('Status', 'Done'),
+        orderBy: [{ field: 'Modified', ascending: false }, { field: 'Id' }],
+        select: ['Id', 'Title'],
+        scope: 'RecursiveAll',
+        top: 500
+      })
+    ).toBe(
+      '<View Scope="RecursiveAll"><Query>' +
+        '<Where><Eq><FieldRef Name="Status" /><Value Type="Text">Done</Value></Eq></Where>' +
+        '<OrderBy><FieldRef Name="Modified" Ascending="FALSE" /><FieldRef Name="ID" /></OrderBy>' +
+        '</Query><ViewFields><FieldRef Name="ID" /><FieldRef Name="Title" /></ViewFields>' +
+        '<RowLimit Paged="TRUE">500</RowLimit></View>'
+    );
+    expect(createViewXml({})).toBe('<View><Query></Query></View>');
+  });
+});
+
+describe('renderListData', () => {
+  it('scopes to a folder, normalizes rows and follows paging tokens', async () => {
+    const parameters: any[] = [];
+    const pages: { [paging: string]: any } = {
+      '': {
+        Row: [{ ID: '1', Title: 'Spec', Size: '1,024', 'Size.': '1024' }],
+        NextHref: '?Paged=TRUE&p_ID=1'
+      },
+      'Paged=TRUE&p_ID=1': { Row: [{ ID: '2', Title: 'Plan', Size: '' }] }
+    };
+    const { fetcher } = await createFetcher(
+      {
+        lists: [
+          {
+            Title: 'Documents',
+            BaseTemplate: 101,
+            fields: [{ InternalName: 'Size', TypeAsString: 'Number' }]
+          }
+        ]
+      },
+      (url, init, next) => {
+        if (!/RenderListDataAsStream/i.test(url)) return next(url, init);
+        const { parameters: sent } = JSON.parse(`${init.body}`);
+        parameters.push(sent);
+        return Promise.resolve(
+          new Response(JSON.stringify(pages[sent.Paging || '']))
+        );
+      }
+    );
+    const library = await fetcher.getListByTitle('Documents');
+    const query = {
+      folder: 'Documents/Projects/',
+      scope: 'RecursiveAll' as const,
+      where: createCaml().eq('Title', 'Spec'),
+      top: 1
+    };
+    const items = [];
+    for await (const page of fetcher.iterateListData(library, query))
+      items.push(...page);
+    expect(items).toEqual([
+      expect.objectContaining({ Id: 1, Title: 'Spec', Size: 1024 }),
+      expect.objectContaining({ Id: 2, Title: 'Plan', Size: null })
+    ]);
+    expect(parameters).toEqual([
+      expect.objectContaining({
+        ViewXml: createViewXml(query),
+        FolderServerRelativeUrl: '/sites/dev/Documents/Projects',
+        DatesInUtc: true
+      }),
+      expect.objectContaining({ Paging: 'Paged=TRUE&p_ID=1' })
+    ]);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+import { SPFetcherError } from '../src';
+import {
+  getCopyResults,
+  getODataValue,
+  parseCopyLogs
+} from '../src/SPFetcher.copy';
+import { createFetcher, SITE_URL } from './helpers';
+
+const ARCHIVE_URL = 'https://contoso.sharepoint.com/sites/archive';
+
+const log = (log: { [key: string]: any }) => JSON.stringify(log);
+
+describe('copy job helpers', () => {
+  it('read OData values and the logs of a job', () => {
+    expect(getODataValue({ value: [1] })).toEqual([1]);
+    expect(getODataValue({ d: { Logs: { results: ['a'] } } })).toEqual(['a']);
+    expect(parseCopyLogs([log({ Event: 'JobStart' }), 'not json'])).toEqual([
+      { Event: 'JobStart' }
+    ]);
+  });
+
+  it('get the result of every source, decoding urls', () => {
+    const sources = [
+      `${SITE_URL}/Documents/My report.docx`,
+      `${SITE_URL}/Documents/Plan.docx`,
+      `${SITE_URL}/Documents/Drafts`
+    ];
+    const results = getCopyResults(sources, [
+      {
+        Event: 'JobFinishedObjectInfo',
+        SourceObjectFullUrl: `${SITE_URL}/Documents/My%20report.docx`,
+        TargetObjectUrl: `${ARCHIVE_URL}/Archive/My report.docx`
+      },
+      {
+        Event: 'JobError',
+        SourceObjectFullUrl: sources[1],
+        Message: 'Target exists',
+        ErrorCode: -2147024816
+      }
+    ]);
+    expect(results[0]).toEqual({
+      source: sources[0],
+      target: `${ARCHIVE_URL}/Archive/My report.docx`
+    });
+    expect(results[1].error).toBeInstanceOf(SPFetcherError);
+    expect(results[1].error).toMatchObject({
+      message: 'Target exists',
+      code: '-2147024816'
+    });
+    expect(results[2]).toEqual({ source: sources[2] });
+    expect(
+      getCopyResults(sources.slice(2), [{ Event: 'JobFatalError' }])[0].error
+    ).toMatchObject({ message: 'Copy failed', code: 'CopyFailed' });
+  });
+});
+
+describe('ensureFolder', () => {
+  it('creates missing folders and their parents', async () => {
+    const { fetcher, emulator } = await createFetcher({
+      lists: [
+        {
+          Title: 'Documents',
+          BaseTemplate: 101,
+          items: [
+            {
+              FileRef: '/sites/dev/Documents/Projects',
+              FileLeafRef: 'Projects',
+              FSObjType: 1
+            }
+          ]
+        }
+      ]
+    });
+    const folder = await fetcher.ensureFolder('Documents/Projects/2020/Q4/');
+    expect(folder).toMatchObject({
+      Exists: true,
+      ServerRelativeUrl: '/sites/dev/Documents/Projects/2020/Q4'
+    });
+    expect(
+      emulator.getList(SITE_URL, 'Documents').items.map(item => item.FileRef)
+    ).toEqual([
+      '/sites/dev/Documents/Projects',
+      '/sites/dev/Documents/Projects/2020',
+      '/sites/dev/Documents/Projects/2020/Q4'
+    ]);
+    const posts = emulator.requests.filter(({ method }) => method === 'POST');
+    await fetcher.ensureFolder('/sites/dev/Documents/Projects/2020');
+    expect(
+      emulator.requests.filter(({ method }) => method === 'POST')
+    ).toHaveLength(posts.length);
+  });
+});
+
+describe('copyFiles and moveFiles', () => {
+  /**
+   * A fetcher whose copy jobs report logs one poll at a time
+   */
+  async function createCopyFetcher(polls: string[][]) {
+    const jobs: any[] = [];
+    const { fetcher, emulator } = await createFetcher(
+      {},
+      (url, init, next) => {
+        if (/CreateCopyJobs/.test(url)) {
+          const body = JSON.parse(`${init.body}`);
+          jobs.push(body);
+          return Promise.resolve(
+            new Response(
+              JSON.stringify({
+                value: body.exportObjectUris.map(
+                  (uri: string, idx: number) => ({
+                    JobId: `${idx}`,
+                    JobQueueUri: 'queue',
+                    EncryptionKey: 'key'
+                  })
+                )
+              })
+            )
+          );
+        }
+        if (/GetCopyJobProgress/.test(url)) {
+          const { copyJobInfo } = JSON.parse(`${init.body}`);
+          const logs = polls.shift() || [];
+          return Promise.resolve(
+            new Response(
+              JSON.stringify({
+                JobState: polls.length ? 4 : 0,
+                Logs: logs.filter(entry =>
+                  entry.includes(`"Job":"${copyJobInfo.JobId}"`)
+                )
+              })
+            )
+          );
+        }
+        return next(url, init);
+      },
+      { sites: { archive: '/sites/archive' } }
+    );
+    emulator.addWeb({
+      url: ARCHIVE_URL,
+      lists: [{ Title: 'Archive', BaseTemplate: 101 }]
+    });
+    return { fetcher, emulator, jobs };
+  }
+
+  it('copy across sites into an ensured folder, reporting per-file results', async () => {
+    const { fetcher, emulator, jobs } = await createCopyFetcher([
+      [
+        log({
+          Job: '0',
+          Event: 'JobFinishedObjectInfo',
+          SourceObjectFullUrl: `${SITE_URL}/Documents/a.docx`,
+          TargetObjectUrl: `${ARCHIVE_URL}/Archive/2020/a.docx`
+        })
+      ],
+      [
+        log({
+          Job: '1',
+          Event: 'JobError',
+          SourceObjectFullUrl: `${SITE_URL}/Documents/b.docx`,
+          Message: 'Access denied'
+        })
+      ]
+    ]);
+    const progress: number[] = [];
+    const results = await fetcher.copyFiles(
+      ['Documents/a.docx', '/sites/dev/Documents/b.docx'],
+      'Archive/2020',
+      {
+        targetSite: 'archive',
+        conflict: 'rename',
+        pollInterval: 0,
+        onProgress: ({ done }) => progress.push(done)
+      }
+    );
+    expect(jobs).toEqual([
+      {
+        exportObjectUris: [
+          `${SITE_URL}/Documents/a.docx`,
+          `${SITE_URL}/Documents/b.docx`
+        ],
+        destinationUri: `${ARCHIVE_URL}/Archive/2020`,
+        options: {
+          AllowSchemaMismatch: true,
+          IgnoreVersionHistory: true,
+          IsMoveMode: false,
+          NameConflictBehavior: 2
+        }
+      }
+    ]);
+    expect(
+      emulator.getList(ARCHIVE_URL, 'Archive').items.map(item => item.FileRef)
+    ).toEqual(['/sites/archive/Archive/2020']);
+    expect(results[0]).toEqual({
+      source: `${SITE_URL}/Documents/a.docx`,
+      target: `${ARCHIVE_URL}/Archive/2020/a.docx`
+    });
+    expect(results[1].error).toMatchObject({ message: 'Access denied' });
+    expect(progress[progress.length - 1]).toBe(2);
+  });
+
+  it('move in move mode, keeping versions when asked', async () => {
+    const { fetcher, jobs } = await createCopyFetcher([[]]);
+    await fetcher.moveFiles(['Documents/a.docx'], '/sites/archive/Archive', {
+      targetSite: 'archive',
+      keepVersions: true,
+      pollInterval: 0
+    });
+    expect(jobs[0].options).toMatchObject({
+      IsMoveMode: true,
+      IgnoreVersionHistory: false,
+      NameConflictBehavior: 0
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import { SPAbortError, SPNotFoundError } from '../src';
+import { createTestContext, parseFilter, SPEmulator } from '../src/testing';
+import { createFetcher, SITE_URL } from './helpers';
+
+const tasks = {
+  Title: 'Tasks',
+  fields: [
+    { InternalName: 'Status', TypeAsString: 'Choice' },
+    { InternalName: 'Priority', TypeAsString: 'Number' }
+  ],
+  items: [
+    { Title: 'Write', Status: 'Done', Priority: 1 },
+    { Title: 'Review', Status: 'Open', Priority: 2 },
+    { Title: "O'Brien", Status: 'Open', Priority: 3 }
+  ]
+};
+
+describe('createTestContext', () => {
+  it('builds the page context from the site and web urls', () => {
+    const context = createTestContext(() => undefined, {
+      siteUrl: `${SITE_URL}/`,
+      webUrl: `${SITE_URL}/team`,
+      listId: 'b5c6a1a4-3f3c-4b7e-9d7a-2d1f1b0f0c11'
+    });
+    expect(context.pageContext.site.serverRelativeUrl).toBe('/sites/dev');
+    expect(context.pageContext.web.absoluteUrl).toBe(`${SITE_URL}/team`);
+    expect(context.pageContext.list.id.toString()).toBe(
+      'b5c6a1a4-3f3c-4b7e-9d7a-2d1f1b0f0c11'
+    );
+  });
+});
+
+describe('parseFilter', () => {
+  it('evaluates OData filters', () => {
+    const items = tasks.items;
+    const titles = (filter: string) =>
+      items.filter(parseFilter(filter)).map(item => item.Title);
+    expect(titles("Status eq 'Open' and Priority gt 2")).toEqual(["O'Brien"]);
+    expect(titles("Title eq 'O''Brien' or Priority le 1")).toEqual([
+      'Write',
+      "O'Brien"
+    ]);
+    expect(titles("substringof('Rev',Title)")).toEqual(['Review']);
+  });
+});
+
+describe('SPEmulator', () => {
+  it('serves a fetcher through the test context', async () => {
+    const { fetcher, emulator } = await createFetcher({ lists: [tasks] });
+    const list = await fetcher.getListByTitle('Tasks');
+    const open = await list.items
+      .filter("Status eq 'Open'")
+      .select('Title')
+      .get();
+    expect(open.map(item => item.Title)).toEqual(['Review', "O'Brien"]);
+    expect(emulator.requests.every(({ url }) => url.startsWith(SITE_URL))).toBe(
+      true
+    );
+  });
+
+  it('pages items in the order they are sorted by', async () => {
+    const { fetcher } = await createFetcher({ lists: [tasks] });
+    const list = await fetcher.getListByTitle('Tasks');
+    const titles: string[] = [];
+    let page = await list.items
+      .select('Title')
+      .orderBy('Priority', false)
+      .top(2)
+      .getPaged();
+    titles.push(...page.results.map(item => item.Title));
+    while (page.hasNext) {
+      page = await page.getNext();
+      titles.push(...page.results.map(item => item.Title));
+    }
+    expect(titles).toEqual(["O'Brien", 'Review', 'Write']);
+  });
+
+  it('creates, updates and deletes items', async () => {
+    const { fetcher, emulator } = await createFetcher({ lists: [tasks] });
+    const list = await fetcher.getListByTitle('Tasks');
+    const created = await fetcher.createItem(list, {
+      Title: 'Ship',
+      Priority: 4
+    });
+    await fetcher.updateItem(list, created.Id, { Status: 'Done' });
+    const items = emulator.getList(SITE_URL, 'Tasks').items;
+    expect(items.find(item => item.Id === created.Id)).toMatchObject({
+      Title: 'Ship',
+      Status: 'Done',
+      Priority: 4
+    });
+    await fetcher.deleteItem(list, created.Id);
+    expect(items.map(item => item.Title)).toEqual([
+      'Write',
+      'Review',
+      "O'Brien"
+    ]);
+  });
+
+  it('rejects missing resources with SPNotFoundError', async () => {
+    const { fetcher } = await createFetcher({ lists: [tasks] });
+    const list = await fetcher.getListByTitle('Missing');
+    await expect(fetcher.getListFields(list)).rejects.toBeInstanceOf(
+      SPNotFoundError
+    );
+  });
+
+  it('does not send writes whose signal was aborted', async () => {
+    const { fetcher, emulator } = await createFetcher({ lists: [tasks] });
+    const list = await fetcher.getListByTitle('Tasks');
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      fetcher.deleteItem(list, 1, controller.signal)
+    ).rejects.toBeInstanceOf(SPAbortError);
+    expect(emulator.getList(SITE_URL, 'Tasks').items).toHaveLength(3);
+    expect(emulator.requests.some(({ method }) => method !== 'GET')).toBe(
+      false
+    );
+  });
+
+  it('passes signals of PnP requests on to the transport', async () => {
+    const signals: AbortSignal[] = [];
+    const { fetcher } = await createFetcher(
+      { lists: [tasks] },
+      (url, init, next) => {
+        if (/\/fields/i.test(url)) signals.push(init.signal);
+        return next(url, init);
+      }
+    );
+    const controller = new AbortController();
+    const list = await fetcher.getListByTitle(
+      'Tasks',
+      undefined,
+      controller.signal
+    );
+    await fetcher.getListFields(list, controller.signal);
+    expect(signals).toHaveLength(1);
+    expect(signals[0]).toBe(controller.signal);
+  });
+
+  it('adds files and folders to libraries, and uploads in sessions', async () => {
+    const { fetcher, emulator } = await createFetcher({
+      lists: [{ Title: 'Documents', BaseTemplate: 101 }]
+    });
+    const web = await fetcher.Web();
+    const root = '/sites/dev/Documents';
+    expect(
+      await web.lists.getByTitle('Documents').select('BaseType').get()
+    ).toMatchObject({ BaseType: 1 });
+    expect(
+      await web.getFolderByServerRelativePath(root).select('Exists').get()
+    ).toMatchObject({ Exists: true });
+    await web.folders.addUsingPath(`${root}/Reports`);
+    await web
+      .getFolderByServerRelativePath(`${root}/Reports`)
+      .files.addUsingPath('a.txt', new Blob(['abc']));
+    await expect(
+      web
+        .getFolderByServerRelativePath(`${root}/Reports`)
+        .files.addUsingPath('a.txt', new Blob(['abc']), { Overwrite: false })
+    ).rejects.toMatchObject({ status: 400 });
+    const file = web.getFileByServerRelativePath(`${root}/Reports/a.txt`);
+    expect(await file.select('Exists', 'Length').get()).toMatchObject({
+      Exists: true,
+      Length: '3'
+    });
+    const upload = `${SITE_URL}/_api/web/getFileByServerRelativePath(decodedurl='${root}/Reports/a.txt')`;
+    const id = "guid'0f8fad5b-d9cb-469f-a165-70867728950e'";
+    await fetcher.post(`${upload}/startUpload(uploadId=${id})`, {
+      body: new Blob(['12'])
+    });
+    await expect(
+      fetcher.post(`${upload}/continueUpload(uploadId=${id},fileOffset=1)`, {
+        body: new Blob(['3'])
+      })
+    ).rejects.toMatchObject({ status: 400 });
+    await fetcher.post(`${upload}/finishUpload(uploadId=${id},fileOffset=2)`, {
+      body: new Blob(['345'])
+    });
+    const library = emulator.getList(SITE_URL, 'Documents');
+    expect(library.items).toEqual([
+      expect.objectContaining({ FileRef: `${root}/Reports`, FSObjType: 1 }),
+      expect.objectContaining({
+        FileRef: `${root}/Reports/a.txt`,
+        FileLeafRef: 'a.txt',
+        FSObjType: 0,
+        File_x0020_Size: 5
+      })
+    ]);
+    await web.getFolderByServerRelativePath(`${root}/Reports`).delete();
+    expect(library.items).toEqual([]);
+    expect(await file.select('Exists').get()).toMatchObject({ Exists: false });
+  });
+
+  it('adds webs and lists after creation', () => {
+    const emulator = new SPEmulator();
+    emulator.addWeb({ url: `${SITE_URL}/` });
+    const list = emulator.addList(SITE_URL, {
+      Title: 'Documents',
+      BaseTemplate: 101
+    });
+    emulator.addItem(list, { FileRef: '/sites/dev/Documents/a.txt' });
+    expect(emulator.getList(SITE_URL, 'documents').items[0]).toMatchObject({
+      Id: 1,
+      FSObjType: 0,
+      ContentTypeId: '0x0101'
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SPAbortError,
+  SPAccessDeniedError,
+  SPFetcherError,
+  SPNotFoundError,
+  SPThrottledError
+} from '../src';
+import {
+  createError,
+  errorFromResponse,
+  parseErrorBody,
+  toFetcherError
+} from '../src/SPFetcher.errors';
+import { createFetcher, SITE_URL } from './helpers';
+
+describe('createError', () => {
+  it('picks the class matching the status or code', () => {
+    expect(createError('', { status: 404 })).toBeInstanceOf(SPNotFoundError);
+    expect(
+      createError('', { code: 'System.IO.FileNotFoundException' })
+    ).toBeInstanceOf(SPNotFoundError);
+    expect(createError('', { status: 403 })).toBeInstanceOf(
+      SPAccessDeniedError
+    );
+    expect(
+      createError('', { code: 'System.UnauthorizedAccessException' })
+    ).toBeInstanceOf(SPAccessDeniedError);
+    expect(createError('', { status: 503 })).toBeInstanceOf(SPThrottledError);
+    const error = createError('Bad request', { status: 400, site: 'default' });
+    expect(error.constructor).toBe(SPFetcherError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({
+      name: 'SPFetcherError',
+      message: 'Bad request',
+      status: 400,
+      site: 'default'
+    });
+  });
+});
+
+describe('parseErrorBody', () => {
+  it('reads REST errors with and without metadata', () => {
+    const error = {
+      code: '-2130575338, System.ArgumentException',
+      message: { lang: 'en-US', value: 'Invalid field' }
+    };
+    const parsed = {
+      code: '-2130575338, System.ArgumentException',
+      message: 'Invalid field'
+    };
+    expect(parseErrorBody(JSON.stringify({ 'odata.error': error }))).toEqual(
+      parsed
+    );
+    expect(parseErrorBody({ error })).toEqual(parsed);
+    expect(
+      parseErrorBody({ error: { code: 'Code', message: 'Plain message' } })
+    ).toEqual({ code: 'Code', message: 'Plain message' });
+  });
+
+  it('reads the ErrorInfo of ProcessQuery responses', () => {
+    expect(
+      parseErrorBody([
+        {
+          ErrorInfo: {
+            ErrorMessage: 'Term not found',
+            ErrorCode: -2146233086,
+            ErrorTypeName: 'System.ArgumentOutOfRangeException',
+            TraceCorrelationId: 'abc'
+          },
+          TraceCorrelationId: 'abc'
+        }
+      ])
+    ).toEqual({
+      code: 'System.ArgumentOutOfRangeException',
+      message: 'Term not found',
+      correlationId: 'abc'
+    });
+  });
+
+  it('ignores bodies that are not SharePoint errors', () => {
+    expect(parseErrorBody('<html>Bad gateway</html>')).toEqual({});
+    expect(parseErrorBody({ value: [] })).toEqual({});
+    expect(parseErrorBody(undefined)).toEqual({});
+  });
+});
+
+describe('errorFromResponse', () => {
+  it('reads the message, code and correlation id of a response', async () => {
+    const error = await errorFromResponse(
+      new Response(
+        JSON.stringify({
+          'odata.error': {
+            code: '-2147024891, System.UnauthorizedAccessException',
+            message: { lang: 'en-US', value: 'Access denied.' }
+          }
+        }),
+        { status: 403, headers: { SPRequestGuid: 'guid' } }
+      ),
+      { url: `${SITE_URL}/_api/web`, site: 'default' }
+    );
+    expect(error).toBeInstanceOf(SPAccessDeniedError);
+    expect(error).toMatchObject({
+      message: 'Access denied.',
+      status: 403,
+      code: '-2147024891, System.UnauthorizedAccessException',
+      correlationId: 'guid',
+      url: `${SITE_URL}/_api/web`,
+      site: 'default'
+    });
+  });
+
+  it('falls back to the status, and reads Retry-After of throttled responses', async () => {
+    const error = await errorFromResponse(
+      new Response('Slow down', {
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: { 'Retry-After': '10' }
+      })
+    );
+    expect(error).toBeInstanceOf(SPThrottledError);
+    expect(error.message).toBe(
+      'Request failed with status [429] Too Many Requests'
+    );
+    expect((error as SPThrottledError).retryAfter).toBe(10000);
+  });
+});
+
+describe('toFetcherError', () => {
+  it('keeps fetcher errors as they are', async () => {
+    const error = new SPNotFoundError('Missing');
+    expect(await toFetcherError(error)).toBe(error);
+  });
+
+  it('turns aborted fetches into SPAbortError', async () => {
+    const cause = new DOMException('The user aborted a request.', 'AbortError');
+    const error = await toFetcherError(cause, { site: 'default' });
+    expect(error).toBeInstanceOf(SPAbortError);
+    expect(error).toMatchObject({ code: 'AbortError', cause, site: 'default' });
+  });
+
+  it('parses the response of PnP request errors', async () => {
+    const cause = Object.assign(new Error('Error making HttpClient request'), {
+      isHttpRequestError: true,
+      status: 404,
+      response: new Response(
+        JSON.stringify({
+          'odata.error': { code: 'NotFound', message: { value: 'No list' } }
+        }),
+        { status: 404 }
+      )
+    });
+    const error = await toFetcherError(cause);
+    expect(error).toBeInstanceOf(SPNotFoundError);
+    expect(error).toMatchObject({ message: 'No list', cause });
+  });
+
+  it('wraps anything else', async () => {
+    const error = await toFetcherError('Something broke', { site: 'hr' });
+    expect(error.constructor).toBe(SPFetcherError);
+    expect(error).toMatchObject({ message: 'Something broke', site: 'hr' });
+  });
+});
+
+describe('errors of fetcher requests', () => {
+  it('rejects failed fetch requests with the matching error', async () => {
+    const { fetcher } = await createFetcher();
+    const error = await fetcher
+      .get("sites/dev/_api/web/lists/getByTitle('Missing')")
+      .catch(error => error);
+    expect(error).toBeInstanceOf(SPNotFoundError);
+    expect(error).toMatchObject({
+      status: 404,
+      url: `https://contoso.sharepoint.com/sites/dev/_api/web/lists/getByTitle('Missing')`,
+      site: 'default'
+    });
+  });
+
+  it('rejects failed PnP requests with the matching error', async () => {
+    const { fetcher } = await createFetcher();
+    await expect(
+      fetcher.getListFields(await fetcher.getListByTitle('Missing'))
+    ).rejects.toBeInstanceOf(SPNotFoundError);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from '../src/SPFetcher.events';
+import { createFetcher, SITE_URL } from './helpers';
+
+interface ITestEvents {
+  done: { id: number };
+  failed: { reason: string };
+}
+
+describe('EventEmitter', () => {
+  it('calls the listeners of an event until they are removed', () => {
+    const emitter = new EventEmitter<ITestEvents>();
+    const listener = vi.fn();
+    const off = emitter.on('done', listener);
+    emitter.emit('done', { id: 1 });
+    emitter.emit('failed', { reason: 'other event' });
+    off();
+    emitter.emit('done', { id: 2 });
+    expect(listener.mock.calls).toEqual([[{ id: 1 }]]);
+  });
+
+  it('calls once-listeners for the next occurrence only', () => {
+    const emitter = new EventEmitter<ITestEvents>();
+    const listener = vi.fn();
+    emitter.once('done', listener);
+    emitter.emit('done', { id: 1 });
+    emitter.emit('done', { id: 2 });
+    expect(listener.mock.calls).toEqual([[{ id: 1 }]]);
+  });
+
+  it('keeps calling listeners when one of them throws', () => {
+    const emitter = new EventEmitter<ITestEvents>();
+    const listener = vi.fn();
+    emitter.on('done', () => {
+      throw new Error('Broken listener');
+    });
+    emitter.on('done', listener);
+    expect(() => emitter.emit('done', { id: 1 })).not.toThrow();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('fetcher events', () => {
+  it('emits the start and end of every request', async () => {
+    const { fetcher } = await createFetcher({ Title: 'Dev' });
+    const events: any[] = [];
+    fetcher.on('requestStart', payload => events.push(['start', payload]));
+    fetcher.on('requestEnd', payload => events.push(['end', payload]));
+    await fetcher.Web().then(web => web.get());
+    expect(events).toEqual([
+      [
+        'start',
+        { id: expect.any(Number), url: `${SITE_URL}/_api/web`, method: 'GET' }
+      ],
+      [
+        'end',
+        {
+          id: events[0][1].id,
+          url: `${SITE_URL}/_api/web`,
+          method: 'GET',
+          status: 200,
+          duration: expect.any(Number),
+          error: undefined
+        }
+      ]
+    ]);
+  });
+
+  it('passes the error of failed requests', async () => {
+    const { fetcher } = await createFetcher({}, () =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    );
+    const ended = new Promise<any>(resolve =>
+      fetcher.once('requestEnd', resolve)
+    );
+    await expect(fetcher.Web().then(web => web.get())).rejects.toThrow();
+    expect(await ended).toMatchObject({
+      status: undefined,
+      error: expect.any(TypeError)
+    });
+  });
+
+  it('emits status changes', async () => {
+    const { fetcher } = await createFetcher();
+    const statuses: string[] = [];
+    fetcher.on('status', ({ status }) => statuses.push(status));
+    fetcher.reset();
+    expect(statuses).toEqual(['not initialized']);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createFilter,
+  formatValue,
+  quote,
+  quoteUrl,
+  SPFilter
+} from '../src/SPFetcher.filter';
+
+describe('quote', () => {
+  it('doubles single quotes and leaves other characters to PnP', () => {
+    expect(quote("O'Brien & Sons #1")).toBe("'O''Brien & Sons #1'");
+  });
+});
+
+describe('quoteUrl', () => {
+  it('doubles single quotes and encodes characters with a meaning in urls', () => {
+    expect(quoteUrl("/sites/dev/Shared Documents/O'Brien #1.docx")).toBe(
+      "'%2Fsites%2Fdev%2FShared%20Documents%2FO''Brien%20%231.docx'"
+    );
+  });
+});
+
+describe('formatValue', () => {
+  it('formats values for OData filters', () => {
+    expect(formatValue('Done')).toBe("'Done'");
+    expect(formatValue(3)).toBe('3');
+    expect(formatValue(true)).toBe('1');
+    expect(formatValue(false)).toBe('0');
+    expect(formatValue(null)).toBe('null');
+    expect(formatValue(new Date('2020-01-02T03:04:05.000Z'))).toBe(
+      "datetime'2020-01-02T03:04:05.000Z'"
+    );
+  });
+});
+
+describe('createFilter', () => {
+  const f = createFilter<{ Status: string; Priority: number; Author: any }>();
+
+  it('combines filters in parentheses', () => {
+    expect(`${f.eq('Status', 'Done').and(f.lt('Priority', 3))}`).toBe(
+      "(Status eq 'Done') and (Priority lt 3)"
+    );
+    expect(`${f.or(f.eq('Priority', 1), 'Priority eq 2')}`).toBe(
+      '(Priority eq 1) or (Priority eq 2)'
+    );
+    expect(`${f.not(f.eq('Status', 'Done'))}`).toBe("not (Status eq 'Done')");
+  });
+
+  it('builds ranges that include the start and exclude the end', () => {
+    expect(`${f.between('Priority', 1, 5)}`).toBe(
+      '(Priority ge 1) and (Priority lt 5)'
+    );
+  });
+
+  it('collects lookup fields to expand', () => {
+    const filter = f
+      .lookup('Author', 'Title', 'eq', "O'Brien")
+      .and(f.eq('Status', 'Done'));
+    expect(`${filter}`).toBe(
+      "(Author/Title eq 'O''Brien') and (Status eq 'Done')"
+    );
+    expect(filter.expand).toEqual(['Author']);
+  });
+
+  it('skips empty parts when joining', () => {
+    expect(`${SPFilter.from([])}`).toBe('');
+    expect(`${SPFilter.from(['', 'Id gt 1'])}`).toBe('Id gt 1');
+  });
+});
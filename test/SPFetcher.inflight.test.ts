@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getRequestKey, InflightRequests } from '../src/SPFetcher.inflight';
+import { createFetcher, SITE_URL } from './helpers';
+
+const url = `${SITE_URL}/_api/web`;
+
+describe('getRequestKey', () => {
+  it('tells requests apart by the headers that change the response', () => {
+    const key = (headers?: HeadersInit) =>
+      getRequestKey({ method: 'get', url, headers });
+    expect(key({ 'X-ClientService-ClientTag': 'a' })).toBe(key());
+    expect(key({ Accept: 'application/json;odata=verbose' })).not.toBe(key());
+    expect(key(new Headers({ Accept: 'application/json' }))).toBe(
+      key([['accept', 'application/json']])
+    );
+  });
+});
+
+describe('InflightRequests', () => {
+  it('shares a pending promise and forgets it once settled', async () => {
+    const inflight = new InflightRequests();
+    const load = vi.fn(() => Promise.resolve('value'));
+    const first = inflight.share('key', load);
+    expect(inflight.share('key', load)).toBe(first);
+    expect(inflight.size).toBe(1);
+    await first;
+    expect(inflight.size).toBe(0);
+    await inflight.share('key', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets rejected promises', async () => {
+    const inflight = new InflightRequests();
+    await expect(
+      inflight.share('key', () => Promise.reject(new Error('failed')))
+    ).rejects.toThrow('failed');
+    expect(inflight.size).toBe(0);
+  });
+});
+
+describe('shared requests of the fetcher', () => {
+  it('sends identical GET-requests once and gives each caller a clone', async () => {
+    const { fetcher, emulator } = await createFetcher({ Title: 'Dev' });
+    const web = await fetcher.Web();
+    const sent = emulator.requests.length;
+    const webs = await Promise.all([web.get(), web.get(), web.get()]);
+    expect(webs.map(result => result.Title)).toEqual(['Dev', 'Dev', 'Dev']);
+    expect(emulator.requests.length - sent).toBe(1);
+  });
+
+  it('does not share requests that can be aborted', async () => {
+    const { fetcher, emulator } = await createFetcher({ Title: 'Dev' });
+    const controller = new AbortController();
+    const web = await fetcher.Web('default', false, {
+      signal: controller.signal
+    });
+    const sent = emulator.requests.length;
+    await Promise.all([web.get(), web.get()]);
+    expect(emulator.requests.length - sent).toBe(2);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SPAbortError, SPFetcherBase } from '../src';
+import { createTestContext, SPEmulator } from '../src/testing';
+import { SITE_URL } from './helpers';
+
+/**
+ * A fetcher whose startup routine reads the title of the web, and waits for
+ * release() before it does
+ */
+class TitleFetcher extends SPFetcherBase<any> {
+  public title: string;
+  public startups: AbortSignal[] = [];
+  public fail = false;
+  public release: () => void;
+  private released = new Promise<void>(resolve => (this.release = resolve));
+
+  protected startupRoutines(signal?: AbortSignal) {
+    this.startups.push(signal);
+    if (this.fail) return Promise.reject(new Error('Startup failed'));
+    return this.released
+      .then(() => this.Web('default', false, { signal }))
+      .then(web => web.get())
+      .then(web => (this.title = web.Title));
+  }
+}
+
+function createContext(Title: string) {
+  const emulator = new SPEmulator([{ url: SITE_URL, Title }]);
+  return {
+    context: createTestContext(emulator.transport, { siteUrl: SITE_URL }),
+    options: { transport: emulator.transport, retry: { maxAttempts: 1 } }
+  };
+}
+
+describe('initialize', () => {
+  it('lets callers wait until the startup routines are done', async () => {
+    const fetcher = new TitleFetcher();
+    const statuses: string[] = [];
+    fetcher.on('status', ({ status }) => statuses.push(status));
+    const { context, options } = createContext('Dev');
+    const ready = fetcher.ready(true).then(() => fetcher.title);
+    const initialized = fetcher.initialize(context, options);
+    expect(fetcher.initialize(context, options)).toBe(initialized);
+    fetcher.release();
+    expect(await ready).toBe('Dev');
+    expect(statuses).toEqual(['initializing', 'ready']);
+  });
+
+  it('rejects waiting callers on failure and retries when called again', async () => {
+    const fetcher = new TitleFetcher();
+    const { context, options } = createContext('Dev');
+    fetcher.fail = true;
+    const ready = fetcher.ready();
+    await expect(fetcher.initialize(context, options)).rejects.toThrow(
+      'Startup failed'
+    );
+    await expect(ready).rejects.toThrow('Startup failed');
+    expect(fetcher.status).toBe('error');
+    await expect(fetcher.ready()).rejects.toThrow('Startup failed');
+    fetcher.fail = false;
+    const retried = fetcher.initialize(context, options);
+    fetcher.release();
+    await retried;
+    expect(fetcher.status).toBe('ready');
+    expect(fetcher.title).toBe('Dev');
+  });
+
+  it('fails after the timeout and aborts the startup routines', async () => {
+    const fetcher = new TitleFetcher();
+    const { context, options } = createContext('Dev');
+    await expect(
+      fetcher.initialize(context, { ...options, timeout: 10 })
+    ).rejects.toThrow('Initialization timed out after 10ms.');
+    expect(fetcher.status).toBe('error');
+    expect(fetcher.startups[0].aborted).toBe(true);
+    fetcher.release();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(fetcher.title).toBeUndefined();
+  });
+});
+
+describe('reset', () => {
+  it('rejects waiting callers and clears the sites of the context', async () => {
+    const fetcher = new TitleFetcher();
+    const { context, options } = createContext('Dev');
+    const ready = fetcher.ready(true);
+    const initialized = fetcher.initialize(context, options);
+    fetcher.reset();
+    await expect(ready).rejects.toThrow('The fetcher was reset.');
+    expect(fetcher.status).toBe('not initialized');
+    expect(fetcher.sites.default).toBeUndefined();
+    expect(fetcher.urls.absolute).toBeUndefined();
+    fetcher.release();
+    await expect(initialized).rejects.toBeInstanceOf(SPAbortError);
+  });
+
+  it('keeps a stale startup run from overwriting a new one', async () => {
+    const fetcher = new TitleFetcher();
+    const first = createContext('First');
+    const second = createContext('Second');
+    const stale = fetcher.initialize(first.context, first.options);
+    stale.catch(() => undefined);
+    await vi.waitFor(() => expect(fetcher.startups).toHaveLength(1));
+    fetcher.reset();
+    const current = fetcher.initialize(second.context, second.options);
+    expect(fetcher.startups[0].aborted).toBe(true);
+    fetcher.release();
+    await current;
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(fetcher.title).toBe('Second');
+    expect(fetcher.status).toBe('ready');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { SPAbortError } from '../src';
+import { ConcurrencyLimiter } from '../src/SPFetcher.limiter';
+import { createFetcher } from './helpers';
+
+/**
+ * Tasks that record when they start, and run until finished by name
+ */
+function createTasks() {
+  const started: string[] = [];
+  const finishers: { [name: string]: () => void } = {};
+  const task = (name: string) => () => {
+    started.push(name);
+    return new Promise<string>(
+      resolve => (finishers[name] = () => resolve(name))
+    );
+  };
+  const finish = (name: string) => finishers[name]();
+  return { started, task, finish };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  it('limits running tasks in total and per site', async () => {
+    const limiter = new ConcurrencyLimiter({ global: 3, perSite: 2 });
+    const { started, task, finish } = createTasks();
+    const results = [
+      limiter.run('a', 'normal', task('a1')),
+      limiter.run('a', 'normal', task('a2')),
+      limiter.run('a', 'normal', task('a3')),
+      limiter.run('b', 'normal', task('b1')),
+      limiter.run('b', 'normal', task('b2'))
+    ];
+    expect(started).toEqual(['a1', 'a2', 'b1']);
+    expect(limiter.queued).toBe(2);
+    finish('a1');
+    await tick();
+    expect(started).toEqual(['a1', 'a2', 'b1', 'a3']);
+    finish('b1');
+    await tick();
+    expect(started).toEqual(['a1', 'a2', 'b1', 'a3', 'b2']);
+    ['a2', 'a3', 'b2'].forEach(finish);
+    expect(await Promise.all(results)).toEqual(['a1', 'a2', 'a3', 'b1', 'b2']);
+  });
+
+  it('starts waiting tasks by priority, then in order of arrival', async () => {
+    const limiter = new ConcurrencyLimiter({ global: 1, perSite: 1 });
+    const { started, task, finish } = createTasks();
+    limiter.run('a', 'normal', task('first'));
+    limiter.run('a', 'low', task('low'));
+    limiter.run('a', 'normal', task('normal 1'));
+    limiter.run('a', 'high', task('high'));
+    limiter.run('a', 'normal', task('normal 2'));
+    for (const name of ['first', 'high', 'normal 1', 'normal 2']) {
+      finish(name);
+      await tick();
+    }
+    expect(started).toEqual(['first', 'high', 'normal 1', 'normal 2', 'low']);
+  });
+
+  it('drops waiting tasks whose signal aborts', async () => {
+    const limiter = new ConcurrencyLimiter({ global: 1, perSite: 1 });
+    const { started, task, finish } = createTasks();
+    const controller = new AbortController();
+    limiter.run('a', 'normal', task('first'));
+    const aborted = limiter.run(
+      'a',
+      'normal',
+      task('aborted'),
+      controller.signal
+    );
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(SPAbortError);
+    expect(limiter.queued).toBe(0);
+    finish('first');
+    await tick();
+    expect(started).toEqual(['first']);
+  });
+
+  it('frees the slot of tasks that throw', async () => {
+    const limiter = new ConcurrencyLimiter({ global: 1, perSite: 1 });
+    await expect(
+      limiter.run('a', 'normal', () => {
+        throw new Error('Broken task');
+      })
+    ).rejects.toThrow('Broken task');
+    expect(
+      await limiter.run('a', 'normal', () => Promise.resolve('next'))
+    ).toBe('next');
+  });
+});
+
+describe('concurrency of fetcher requests', () => {
+  it('sends waiting requests with a higher priority first', async () => {
+    const sent: string[] = [];
+    let release: () => void;
+    const blocked = new Promise<void>(resolve => (release = resolve));
+    const { fetcher } = await createFetcher(
+      { Title: 'Dev', lists: [{ Title: 'Low' }, { Title: 'High' }] },
+      (url, init, next) => {
+        sent.push(url.split('/_api/')[1]);
+        return (/getByTitle/i.test(url)
+          ? Promise.resolve()
+          : blocked
+        ).then(() => next(url, init));
+      },
+      { concurrency: { global: 1 } }
+    );
+    const blocker = fetcher.Web().then(web => web.get());
+    const low = fetcher
+      .Web('default', false, { priority: 'low' })
+      .then(web => web.lists.getByTitle('Low').get());
+    const high = fetcher
+      .Web('default', false, { priority: 'high' })
+      .then(web => web.lists.getByTitle('High').get());
+    await tick();
+    release();
+    await Promise.all([blocker, low, high]);
+    expect(sent).toEqual([
+      'web',
+      "web/lists/getByTitle('High')",
+      "web/lists/getByTitle('Low')"
+    ]);
+  });
+});
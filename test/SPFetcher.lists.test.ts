@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { createFilter, SPFetcherBase, SPFetcherError } from '../src';
+import { createTestContext, SPEmulator } from '../src/testing';
+import { SITE_URL } from './helpers';
+
+interface ITasksItem {
+  Title: { 'odata.type': 'SP.Field' };
+  Status: { 'odata.type': 'SP.FieldChoice' };
+  Priority: { 'odata.type': 'SP.FieldNumber' };
+}
+
+const HR_URL = 'https://contoso.sharepoint.com/sites/hr';
+
+class TasksFetcher extends SPFetcherBase<any, { Tasks: ITasksItem }> {
+  constructor() {
+    super();
+    this.registerList('Tasks', { site: 'hr', title: 'Tasks' });
+  }
+}
+
+/**
+ * A fetcher whose Tasks list lives in the hr site
+ */
+async function createTasksFetcher() {
+  const emulator = new SPEmulator([
+    { url: SITE_URL },
+    {
+      url: HR_URL,
+      lists: [
+        {
+          Title: 'Tasks',
+          fields: [
+            { InternalName: 'Status', TypeAsString: 'Choice' },
+            { InternalName: 'Priority', TypeAsString: 'Number' }
+          ],
+          items: ['Write', 'Review', 'Ship', 'Celebrate'].map((Title, idx) => ({
+            Title,
+            Status: idx < 2 ? 'Done' : 'Open',
+            Priority: 4 - idx
+          }))
+        }
+      ]
+    }
+  ]);
+  const fetcher = new TasksFetcher();
+  await fetcher.initialize(
+    createTestContext(emulator.transport, { siteUrl: SITE_URL }),
+    { transport: emulator.transport, sites: { hr: '/sites/hr' } }
+  );
+  return { fetcher, emulator };
+}
+
+describe('registerList', () => {
+  it('needs a title or an id', () => {
+    const fetcher = new SPFetcherBase<any, { Tasks: any }>();
+    expect(() => fetcher.registerList('Tasks', { site: 'hr' })).toThrow(
+      SPFetcherError
+    );
+  });
+
+  it('makes list() throw for keys never registered', () => {
+    const fetcher = new SPFetcherBase<any, { Tasks: any }>();
+    expect(() => fetcher.list('Tasks')).toThrow(
+      expect.objectContaining({ code: 'UnknownList' })
+    );
+  });
+});
+
+describe('list handles', () => {
+  it('query items of the registered list across pages', async () => {
+    const { fetcher, emulator } = await createTasksFetcher();
+    const items = await fetcher.list('Tasks').items({
+      filter: createFilter<ITasksItem>().eq('Status', 'Open'),
+      select: ['Id', 'Title', 'Priority'],
+      orderBy: 'Priority',
+      top: 1
+    });
+    expect(items.map(item => [item.Title, item.Priority])).toEqual([
+      ['Celebrate', 1],
+      ['Ship', 2]
+    ]);
+    expect(
+      emulator.requests.filter(({ url }) => /\/items/i.test(url))
+    ).toHaveLength(2);
+    expect(emulator.requests.every(({ url }) => url.startsWith(HR_URL))).toBe(
+      true
+    );
+  });
+
+  it('get, add, update and delete items', async () => {
+    const { fetcher, emulator } = await createTasksFetcher();
+    const tasks = fetcher.list('Tasks');
+    expect((await tasks.getById(2, ['Title'])).Title).toBe('Review');
+    const created = await tasks.add({ Title: 'Rest', Priority: 5 });
+    await tasks.update(created.Id, { Status: 'Done' });
+    const items = emulator.getList(HR_URL, 'Tasks').items;
+    expect(items.find(item => item.Id === created.Id)).toMatchObject({
+      Title: 'Rest',
+      Status: 'Done',
+      Priority: 5
+    });
+    await tasks.delete(created.Id);
+    expect(items).toHaveLength(4);
+  });
+
+  it('find registered lists by id', async () => {
+    const { fetcher, emulator } = await createTasksFetcher();
+    const { Id } = emulator.getList(HR_URL, 'Tasks');
+    fetcher.registerList('Tasks', { site: 'hr', id: Id });
+    expect((await fetcher.list('Tasks').getById(1)).Title).toBe('Write');
+    expect(emulator.requests.map(({ url }) => url)).toContainEqual(
+      expect.stringMatching(new RegExp(`lists\\('${Id}'\\)`, 'i'))
+    );
+  });
+
+  it('reject with SPFetcherError when the list is missing', async () => {
+    const { fetcher } = await createTasksFetcher();
+    fetcher.registerList('Tasks', { title: 'Tasks' });
+    await expect(fetcher.list('Tasks').items()).rejects.toMatchObject({
+      status: 404,
+      site: 'default'
+    });
+  });
+});
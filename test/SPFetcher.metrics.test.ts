@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { getEndpoint } from '../src/SPFetcher.metrics';
+import { createFetcher, SITE_URL } from './helpers';
+
+const site = SITE_URL.toLowerCase();
+
+describe('getEndpoint', () => {
+  it('counts similar requests together', () => {
+    expect(
+      getEndpoint(`${SITE_URL}/_api/web/lists/getById('6f0c')/items(5)?$top=10`)
+    ).toBe('_api/web/lists/getById(*)/items(*)');
+    expect(getEndpoint(`${SITE_URL}/_api/web/lists/items/5/versions`)).toBe(
+      '_api/web/lists/items/*/versions'
+    );
+    expect(getEndpoint(`${SITE_URL}/_api/contextinfo()`)).toBe(
+      '_api/contextinfo()'
+    );
+  });
+});
+
+describe('getDiagnostics', () => {
+  it('counts requests, errors and durations per site and endpoint', async () => {
+    const { fetcher } = await createFetcher({ lists: [{ Title: 'Tasks' }] });
+    const web = await fetcher.Web();
+    await web.get();
+    await web.lists
+      .getByTitle('Missing')
+      .get()
+      .catch(() => undefined);
+    const diagnostics = fetcher.getDiagnostics();
+    expect(diagnostics.status).toBe('ready');
+    expect(diagnostics.sites[site]).toMatchObject({
+      count: 2,
+      errors: 1,
+      throttled: 0
+    });
+    expect(diagnostics.endpoints['GET _api/web']).toMatchObject({
+      count: 1,
+      errors: 0
+    });
+    expect(diagnostics.recentErrors).toEqual([
+      expect.objectContaining({
+        url: `${SITE_URL}/_api/web/lists/getByTitle('Missing')`,
+        method: 'GET',
+        status: 404
+      })
+    ]);
+    expect(JSON.parse(JSON.stringify(diagnostics))).toEqual(diagnostics);
+  });
+
+  it('counts throttled responses that succeeded on retry', async () => {
+    let throttled = 2;
+    const { fetcher } = await createFetcher({}, (url, init, next) =>
+      throttled-- > 0
+        ? Promise.resolve(
+            new Response(null, { status: 429, headers: { 'Retry-After': '0' } })
+          )
+        : next(url, init)
+    );
+    fetcher.retryPolicy = { ...fetcher.retryPolicy, maxAttempts: 3 };
+    await fetcher.Web().then(web => web.get());
+    const diagnostics = fetcher.getDiagnostics();
+    expect(diagnostics.retries).toBe(2);
+    expect(diagnostics.sites[site]).toMatchObject({
+      count: 1,
+      errors: 0,
+      throttled: 2
+    });
+    expect(diagnostics.endpoints['GET _api/web'].throttled).toBe(2);
+  });
+
+  it('counts batches and cache hits, and starts over on reset', async () => {
+    const { fetcher } = await createFetcher({
+      lists: [{ Title: 'Tasks', items: [{ Title: 'First' }] }]
+    });
+    const list = await fetcher.getListByTitle('Tasks');
+    await Promise.all([
+      fetcher.inBatch(batch => list.items.getById(1).inBatch(batch).get()),
+      fetcher.inBatch(batch => list.items.getById(2).inBatch(batch).get()),
+      fetcher.flush()
+    ]).catch(() => undefined);
+    await fetcher.getListFields(list);
+    await fetcher.getListFields(list);
+    const diagnostics = fetcher.getDiagnostics();
+    expect(diagnostics.batches).toEqual({
+      count: 1,
+      requests: 2,
+      failed: 1,
+      maxSize: 2,
+      averageSize: 2
+    });
+    expect(diagnostics.cacheHits).toBe(1);
+    fetcher.resetDiagnostics();
+    expect(fetcher.getDiagnostics()).toMatchObject({
+      sites: {},
+      endpoints: {},
+      retries: 0,
+      cacheHits: 0,
+      recentErrors: []
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectPages,
+  createPageIterator,
+  isThresholdError
+} from '../src/SPFetcher.paging';
+import { createFetcher } from './helpers';
+
+const library = {
+  Title: 'Documents',
+  BaseTemplate: 101,
+  items: [1, 2, 3, 4, 5].map(id => ({ Title: `Doc ${id}` }))
+};
+
+const thresholdError = () =>
+  new Response(
+    JSON.stringify({
+      'odata.error': {
+        code: '-2147024860, Microsoft.SharePoint.SPQueryThrottledException',
+        message: {
+          lang: 'en-US',
+          value:
+            'The attempted operation is prohibited because it exceeds the list view threshold.'
+        }
+      }
+    }),
+    { status: 500, headers: { 'content-type': 'application/json' } }
+  );
+
+describe('createPageIterator', () => {
+  it('iterates until the next page is undefined', async () => {
+    const pages = [[1, 2], [3], undefined];
+    const iterator = createPageIterator(() => Promise.resolve(pages.shift()));
+    expect(await collectPages(iterator)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('isThresholdError', () => {
+  it('recognizes list view threshold errors', () => {
+    expect(
+      isThresholdError(
+        new Error('Microsoft.SharePoint.SPQueryThrottledException')
+      )
+    ).toBe(true);
+    expect(isThresholdError(new Error('Access denied'))).toBe(false);
+    expect(isThresholdError(undefined)).toBe(false);
+  });
+});
+
+describe('iterateAllItems', () => {
+  it('loads pages of pageSize until top items are loaded', async () => {
+    const { fetcher, emulator } = await createFetcher({ lists: [library] });
+    const pages: any[][] = [];
+    for await (const page of fetcher.iterateAllItems(
+      undefined,
+      'file',
+      ['Title'],
+      undefined,
+      3,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      2
+    ))
+      pages.push(page.map(item => item.Title));
+    expect(pages).toEqual([['Doc 1', 'Doc 2'], ['Doc 3']]);
+    expect(
+      emulator.requests.filter(({ url }) => /\/items\?/i.test(url))
+    ).toHaveLength(2);
+  });
+
+  it('falls back to id ranges when a later page hits the threshold', async () => {
+    const { fetcher } = await createFetcher(
+      { lists: [library] },
+      (url, init, next) =>
+        /skiptoken/i.test(decodeURIComponent(url))
+          ? Promise.resolve(thresholdError())
+          : next(url, init)
+    );
+    const progress: boolean[] = [];
+    const items = await fetcher.fetchAllItems(
+      undefined,
+      'file',
+      'Title',
+      undefined,
+      undefined,
+      undefined,
+      ({ byIdRange }) => progress.push(byIdRange),
+      undefined,
+      undefined,
+      2
+    );
+    expect(items.map(item => item.Id)).toEqual([1, 2, 3, 4, 5]);
+    expect(progress[0]).toBe(false);
+    expect(progress[progress.length - 1]).toBe(true);
+  });
+});
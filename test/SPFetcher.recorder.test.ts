@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { SPFetcherBase, SPFetcherError } from '../src';
+import { createTestContext, SPRecorder } from '../src/testing';
+import { createFetcher, SITE_URL } from './helpers';
+
+const web = {
+  Title: 'Dev',
+  lists: [{ Title: 'Tasks', items: [{ Title: 'First' }, { Title: 'Second' }] }]
+};
+
+/**
+ * Make the same requests through fetch, PnP and a batch
+ */
+async function exercise(fetcher: SPFetcherBase<any>) {
+  const response = await fetcher.get(`${SITE_URL}/_api/web`);
+  const list = await fetcher.getListByTitle('Tasks');
+  const items = await Promise.all([
+    fetcher.inBatch(batch => list.items.getById(1).inBatch(batch).get()),
+    fetcher.inBatch(batch => list.items.getById(2).inBatch(batch).get()),
+    fetcher.flush()
+  ]);
+  return {
+    title: (await response.json()).Title,
+    items: items.slice(0, 2).map(item => item.Title)
+  };
+}
+
+describe('SPRecorder', () => {
+  it('records fetch, PnP and batch requests, and replays them offline', async () => {
+    const recorder = new SPRecorder('record');
+    const { fetcher } = await createFetcher(web, undefined, { recorder });
+    const recorded = await exercise(fetcher);
+    expect(recorded).toEqual({ title: 'Dev', items: ['First', 'Second'] });
+    const fixture = JSON.parse(JSON.stringify(recorder));
+    expect(
+      fixture.log.entries.map(({ request }) => request.url.split('/_api/')[1])
+    ).toEqual(expect.arrayContaining(['web', '$batch']));
+
+    const replay = new SPRecorder('replay', fixture);
+    const offline = new SPFetcherBase<any>();
+    await offline.initialize(
+      createTestContext(replay.transport, { siteUrl: SITE_URL }),
+      { recorder: replay, transport: replay.transport }
+    );
+    expect(await exercise(offline)).toEqual(recorded);
+  });
+
+  it('redacts credentials and form digests', async () => {
+    const recorder = new SPRecorder('record');
+    const { fetcher } = await createFetcher(
+      web,
+      (url, init, next) =>
+        /contextinfo/i.test(url)
+          ? Promise.resolve(
+              new Response(
+                JSON.stringify({ FormDigestValue: '0x1234,01 Jan 2026' }),
+                { headers: { 'Set-Cookie': 'FedAuth=secret' } }
+              )
+            )
+          : next(url, init),
+      { recorder }
+    );
+    await fetcher.post(`${SITE_URL}/_api/contextinfo`, {
+      headers: {
+        Authorization: 'Bearer secret',
+        'X-RequestDigest': 'secret digest'
+      }
+    });
+    const text = JSON.stringify(recorder);
+    expect(text).not.toMatch(/secret|0x1234/);
+    const [entry] = recorder.toJSON().log.entries;
+    expect(entry.request.headers).toEqual(
+      expect.arrayContaining([
+        { name: 'authorization', value: 'REDACTED' },
+        { name: 'x-requestdigest', value: 'REDACTED' }
+      ])
+    );
+    expect(JSON.parse(entry.response.content.text)).toEqual({
+      FormDigestValue: 'REDACTED'
+    });
+  });
+
+  it('replays identical requests in order, and rejects unmatched ones', async () => {
+    let count = 0;
+    const recorder = new SPRecorder('record');
+    const { fetcher } = await createFetcher(
+      web,
+      () => Promise.resolve(new Response(`${(count += 1)}`)),
+      { recorder }
+    );
+    await fetcher.get(`${SITE_URL}/_api/counter`);
+    await fetcher.get(`${SITE_URL}/_api/counter`);
+
+    const replay = new SPRecorder('replay', recorder.toJSON());
+    const texts = [];
+    for (let idx = 0; idx < 3; idx++)
+      texts.push(
+        await (await replay.transport(`${SITE_URL}/_api/counter`)).text()
+      );
+    expect(texts).toEqual(['1', '2', '2']);
+    const error = await replay
+      .transport(`${SITE_URL}/_api/missing`)
+      .catch(error => error);
+    expect(error).toBeInstanceOf(SPFetcherError);
+    expect(error.code).toBe('UnmatchedRequest');
+  });
+});
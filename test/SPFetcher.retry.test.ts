@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  defaultRetryPolicy,
+  getRetryAfter,
+  getRetryDelay,
+  withRetry
+} from '../src/SPFetcher.retry';
+import { createFetcher } from './helpers';
+
+const policy = { ...defaultRetryPolicy, baseDelay: 0, jitter: 0 };
+
+const respond = (status: number, headers?: { [key: string]: string }) =>
+  new Response(null, { status, headers });
+
+describe('getRetryAfter', () => {
+  it('reads delay-seconds and HTTP-dates', () => {
+    expect(getRetryAfter(respond(429, { 'Retry-After': '3' }))).toBe(3000);
+    const date = new Date(Date.now() + 60000).toUTCString();
+    const delay = getRetryAfter(respond(429, { 'Retry-After': date }));
+    expect(delay).toBeGreaterThan(55000);
+    expect(delay).toBeLessThanOrEqual(60000);
+    expect(getRetryAfter(respond(429))).toBeUndefined();
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially up to maxDelay', () => {
+    const backoff = { ...policy, baseDelay: 100, maxDelay: 350 };
+    expect([1, 2, 3, 4].map(n => getRetryDelay(backoff, n))).toEqual([
+      100,
+      200,
+      350,
+      350
+    ]);
+  });
+
+  it('prefers Retry-After over the backoff', () => {
+    expect(getRetryDelay(policy, 1, respond(503, { 'Retry-After': '2' }))).toBe(
+      2000
+    );
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries throttled responses until one succeeds', async () => {
+    const statuses = [429, 503, 200];
+    const request = vi.fn(() => Promise.resolve(respond(statuses.shift())));
+    const onRetry = vi.fn();
+    const response = await withRetry(request, policy, onRetry);
+    expect(response.status).toBe(200);
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it('returns the last response once attempts are spent', async () => {
+    const request = vi.fn(() => Promise.resolve(respond(429)));
+    const response = await withRetry(request, { ...policy, maxAttempts: 3 });
+    expect(response.status).toBe(429);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other failures', async () => {
+    const request = vi.fn(() => Promise.resolve(respond(500)));
+    expect((await withRetry(request, policy)).status).toBe(500);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for Retry-After before the next attempt', async () => {
+    vi.useFakeTimers();
+    const statuses = [429, 200];
+    const request = vi.fn(() =>
+      Promise.resolve(respond(statuses.shift(), { 'Retry-After': '5' }))
+    );
+    const done = withRetry(request, policy);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await done).status).toBe(200);
+  });
+});
+
+describe('retries of fetcher requests', () => {
+  it('retries throttled requests and emits retry events', async () => {
+    let throttled = 2;
+    const { fetcher } = await createFetcher({}, (url, init, next) =>
+      /\/_api\/web$/i.test(url.split('?')[0]) && throttled-- > 0
+        ? Promise.resolve(respond(429, { 'Retry-After': '0' }))
+        : next(url, init)
+    );
+    fetcher.retryPolicy = { ...policy, maxAttempts: 3 };
+    const retries: number[] = [];
+    fetcher.on('retry', ({ attempt }) => retries.push(attempt));
+    const web = await fetcher.Web();
+    expect((await web.get()).Title).toBe('');
+    expect(retries).toEqual([1, 2]);
+  });
+});
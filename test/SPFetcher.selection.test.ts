@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { SPFetcherBase, SPFetcherError } from '../src';
+import { createTestContext, SPEmulator } from '../src/testing';
+import { createFetcher, SITE_URL } from './helpers';
+
+const HR_URL = 'https://contoso.sharepoint.com/sites/hr';
+
+/**
+ * Rows as a list view command set gets them
+ */
+const rows = (...ids: number[]) =>
+  ids.map(id => ({
+    getValueByName: (name: string) => (name === 'ID' ? `${id}` : undefined)
+  }));
+
+describe('getSelection', () => {
+  it('resolves files and folders of a library in another site, in one batch', async () => {
+    const { fetcher, emulator } = await createFetcher({}, undefined, {
+      sites: { hr: '/sites/hr' }
+    });
+    emulator.addWeb({ url: HR_URL });
+    const library = emulator.addList(HR_URL, {
+      Title: 'Policies',
+      BaseTemplate: 101,
+      items: [
+        {
+          FileRef: '/sites/hr/Policies/Leave.docx',
+          FileLeafRef: 'Leave.docx',
+          Title: 'Leave',
+          ContentType: { Name: 'Document' }
+        },
+        {
+          FileRef: '/sites/hr/Policies/Archive',
+          FileLeafRef: 'Archive',
+          FSObjType: 1,
+          Title: 'Archive',
+          ContentType: { Name: 'Folder' }
+        }
+      ]
+    });
+    const selection = await fetcher.getSelection(rows(2, 1), {
+      list: library.Id,
+      site: 'hr',
+      select: ['Title']
+    });
+    expect(selection).toEqual([
+      {
+        kind: 'folder',
+        listId: library.Id,
+        id: 2,
+        webUrl: HR_URL,
+        url: '/sites/hr/Policies/Archive',
+        name: 'Archive',
+        contentTypeId: library.items[1].ContentTypeId,
+        contentType: 'Folder',
+        values: { Title: 'Archive' }
+      },
+      expect.objectContaining({
+        kind: 'file',
+        id: 1,
+        name: 'Leave.docx',
+        contentType: 'Document',
+        values: { Title: 'Leave' }
+      })
+    ]);
+    const batches = emulator.requests.filter(
+      ({ url, body }) => /\$batch/.test(url) && /\/items/i.test(`${body}`)
+    );
+    expect(batches).toHaveLength(1);
+    expect(`${batches[0].body}`.match(/items\(\d\)/gi)).toEqual([
+      'items(2)',
+      'items(1)'
+    ]);
+    expect(emulator.requests.some(({ url }) => /\/items/i.test(url))).toBe(
+      false
+    );
+  });
+
+  it('resolves items of the current list, normalizing values', async () => {
+    const emulator = new SPEmulator([
+      {
+        url: SITE_URL,
+        lists: [
+          {
+            Title: 'Tasks',
+            fields: [{ InternalName: 'Due', TypeAsString: 'DateTime' }],
+            items: [{ Title: 'Write', Due: '2020-05-01T10:00:00Z' }]
+          }
+        ]
+      }
+    ]);
+    const { Id } = emulator.getList(SITE_URL, 'Tasks');
+    const fetcher = new SPFetcherBase<any>();
+    await fetcher.initialize(
+      createTestContext(emulator.transport, { siteUrl: SITE_URL, listId: Id }),
+      { transport: emulator.transport }
+    );
+    const [item] = await fetcher.getSelection(rows(1), {
+      select: ['Title', 'Due'],
+      normalize: true
+    });
+    expect(item).toMatchObject({
+      kind: 'item',
+      listId: Id,
+      id: 1,
+      webUrl: SITE_URL,
+      values: { Title: 'Write', Due: new Date('2020-05-01T10:00:00Z') }
+    });
+  });
+
+  it('needs a list outside of list views', async () => {
+    const { fetcher } = await createFetcher();
+    const error = await fetcher.getSelection(rows(1)).catch(error => error);
+    expect(error).toBeInstanceOf(SPFetcherError);
+    expect(error.code).toBe('InvalidList');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { SPFetcherBase, SPFetcherError } from '../src';
+import { getBaseUrl, resolveSite } from '../src/SPFetcher.sites';
+import { createTestContext, SPEmulator } from '../src/testing';
+import { createFetcher, SITE_URL } from './helpers';
+
+describe('getBaseUrl', () => {
+  it('strips the server relative url of the site', () => {
+    expect(
+      getBaseUrl('https://contoso.sharepoint.us/sites/hr', '/sites/hr')
+    ).toBe('https://contoso.sharepoint.us');
+    expect(
+      getBaseUrl('http://intranet/sharepoint/sites/hr/', '/sharepoint/sites/hr')
+    ).toBe('http://intranet');
+  });
+
+  it('falls back to the origin of the url', () => {
+    expect(getBaseUrl('https://portal.contoso.cn/sites/hr')).toBe(
+      'https://portal.contoso.cn'
+    );
+    expect(getBaseUrl('http://intranet:8080/', '/')).toBe(
+      'http://intranet:8080'
+    );
+  });
+});
+
+describe('resolveSite', () => {
+  const sites = {
+    base: 'https://contoso.sharepoint.com',
+    default: 'https://contoso.sharepoint.com/sites/dev',
+    hr: '/sites/hr'
+  };
+
+  it('resolves keys, aliases and urls against the base url', () => {
+    const aliases = {
+      people: 'hr',
+      archive: '/sites/archive',
+      staff: 'people'
+    };
+    expect(resolveSite('default', sites, aliases)).toBe(sites.default);
+    expect(resolveSite('hr', sites, aliases)).toBe(
+      'https://contoso.sharepoint.com/sites/hr'
+    );
+    expect(resolveSite('staff', sites, aliases)).toBe(
+      'https://contoso.sharepoint.com/sites/hr'
+    );
+    expect(resolveSite('archive', sites, aliases)).toBe(
+      'https://contoso.sharepoint.com/sites/archive'
+    );
+    expect(resolveSite('http://intranet/sites/it/', sites, aliases)).toBe(
+      'http://intranet/sites/it'
+    );
+  });
+
+  it('returns undefined for unknown names and alias cycles', () => {
+    const aliases = { a: 'b', b: 'a' };
+    expect(resolveSite('unknown', sites, aliases)).toBeUndefined();
+    expect(resolveSite('a', sites, aliases)).toBeUndefined();
+  });
+});
+
+describe('sites of a fetcher', () => {
+  it('sends requests to the site an alias points to', async () => {
+    const emulator = new SPEmulator([
+      { url: SITE_URL, Title: 'Dev' },
+      { url: 'https://contoso.sharepoint.com/sites/hr', Title: 'HR' }
+    ]);
+    const fetcher = new SPFetcherBase<any>();
+    await fetcher.initialize(
+      createTestContext(emulator.transport, { siteUrl: SITE_URL }),
+      {
+        transport: emulator.transport,
+        sites: { hr: '/sites/hr' },
+        aliases: { people: 'hr' }
+      }
+    );
+    const web = await fetcher.Web('people');
+    expect((await web.get()).Title).toBe('HR');
+    await expect(fetcher.Web('unknown')).rejects.toBeInstanceOf(SPFetcherError);
+  });
+
+  it('keeps absolute http urls of on-prem sites', async () => {
+    const siteUrl = 'http://intranet/sites/dev';
+    const emulator = new SPEmulator([{ url: siteUrl, Title: 'On-prem' }]);
+    const fetcher = new SPFetcherBase<any>();
+    await fetcher.initialize(
+      createTestContext(emulator.transport, { siteUrl }),
+      { transport: emulator.transport }
+    );
+    expect(fetcher.sites.base).toBe('http://intranet');
+    const response = await fetcher.get(`${siteUrl}/_api/web`);
+    expect((await response.json()).Title).toBe('On-prem');
+    expect(emulator.requests.map(({ url }) => url)).toContain(
+      `${siteUrl}/_api/web`
+    );
+  });
+
+  it('resolves relative urls of fetch against the base url', async () => {
+    const { fetcher, emulator } = await createFetcher({ Title: 'Dev' });
+    await fetcher.get('sites/dev/_api/web');
+    expect(emulator.requests.map(({ url }) => url)).toContain(
+      `${SITE_URL}/_api/web`
+    );
+  });
+});
@@ -0,0 +1,341 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildTermTree,
+  getTermLabels,
+  ITerm,
+  SPFetcherError,
+  SPNotFoundError
+} from '../src';
+import {
+  createProcessQuery,
+  getQueryItems,
+  getTermStorePaths,
+  methodPath,
+  parseTerm
+} from '../src/SPFetcher.taxonomy';
+import { createFetcher, SITE_URL } from './helpers';
+
+const STORE = '11111111-1111-1111-1111-111111111111';
+const TERMSET = '22222222-2222-2222-2222-222222222222';
+
+/**
+ * A term as ProcessQuery returns it
+ */
+function csomTerm(
+  id: string,
+  path: string,
+  extra: { [key: string]: any } = {}
+): ITerm {
+  return ({
+    _ObjectType_: 'SP.Taxonomy.Term',
+    Id: `/Guid(${id})/`,
+    Name: path.split(';').pop(),
+    PathOfTerm: path,
+    IsRoot: path.indexOf(';') === -1,
+    Parent: null,
+    Labels: {
+      _Child_Items_: [
+        {
+          Language: 1033,
+          Value: path.split(';').pop(),
+          IsDefaultForLanguage: true
+        }
+      ]
+    },
+    CustomSortOrder: null,
+    CustomProperties: {},
+    LocalCustomProperties: {},
+    IsDeprecated: false,
+    IsAvailableForTagging: true,
+    ...extra
+  } as unknown) as ITerm;
+}
+
+/**
+ * A ProcessQuery response with the results of actions by id
+ */
+function processQueryResponse(results: { [id: number]: any }) {
+  return Object.keys(results).reduce(
+    (prev, id) => prev.concat(Number(id), results[Number(id)]),
+    [{ SchemaVersion: '15.0.0.0', ErrorInfo: null, TraceCorrelationId: 'abc' }]
+  );
+}
+
+/**
+ * A fetcher whose ProcessQuery requests are answered by respond
+ */
+async function createTaxonomyFetcher(respond: (body: string) => any) {
+  const bodies: string[] = [];
+  const { fetcher } = await createFetcher({}, (url, init, next) => {
+    if (!/ProcessQuery/.test(url)) return next(url, init);
+    bodies.push(`${init.body}`);
+    return Promise.resolve(
+      new Response(JSON.stringify(respond(`${init.body}`)))
+    );
+  });
+  return { fetcher, bodies };
+}
+
+const terms = [
+  csomTerm('a0000000-0000-0000-0000-000000000001', 'Europe'),
+  csomTerm('a0000000-0000-0000-0000-000000000002', 'Europe;Norway', {
+    Parent: { Id: '/Guid(a0000000-0000-0000-0000-000000000001)/' },
+    CustomSortOrder:
+      'a0000000-0000-0000-0000-000000000004:a0000000-0000-0000-0000-000000000003'
+  }),
+  csomTerm('a0000000-0000-0000-0000-000000000003', 'Europe;Norway;Bergen'),
+  csomTerm('a0000000-0000-0000-0000-000000000004', 'Europe;Norway;Oslo', {
+    LocalCustomProperties: { Code: 'OSL' }
+  }),
+  csomTerm('a0000000-0000-0000-0000-000000000005', 'Asia')
+];
+
+describe('ProcessQuery helpers', () => {
+  it('instantiate every object path before the other actions', () => {
+    const body = createProcessQuery(
+      ['<Query Id="5" ObjectPathId="3" />'],
+      [
+        getTermStorePaths(STORE),
+        methodPath(3, 2, 'GetTermSet', [
+          `<Parameter Type="Guid">${TERMSET}</Parameter>`
+        ])
+      ]
+    );
+    expect(body.match(/<Actions>.*<\/Actions>/)[0]).toBe(
+      '<Actions><ObjectPath Id="100" ObjectPathId="0" /><ObjectPath Id="101" ObjectPathId="1" />' +
+        '<ObjectPath Id="102" ObjectPathId="2" /><ObjectPath Id="103" ObjectPathId="3" />' +
+        '<Query Id="5" ObjectPathId="3" /></Actions>'
+    );
+    expect(body).toContain(
+      `<Method Id="2" ParentId="1" Name="GetById"><Parameters><Parameter Type="Guid">${STORE}</Parameter></Parameters></Method>`
+    );
+    expect(createProcessQuery([], [getTermStorePaths()])).toContain(
+      'Name="GetDefaultKeywordsTermStore"'
+    );
+  });
+
+  it('read items and terms from responses, parsing guids', () => {
+    const response = processQueryResponse({
+      4: { _Child_Items_: [{ Id: `/Guid(${TERMSET})/`, Name: 'Places' }] }
+    });
+    expect(getQueryItems(response, 4)).toEqual([
+      { Id: TERMSET, Name: 'Places' }
+    ]);
+    expect(getQueryItems(response, 5)).toEqual([]);
+    expect(parseTerm(terms[1])).toMatchObject({
+      Id: 'a0000000-0000-0000-0000-000000000002',
+      Parent: { Id: 'a0000000-0000-0000-0000-000000000001' }
+    });
+  });
+});
+
+describe('getTermLabels', () => {
+  it('sorts labels by language, default label first', () => {
+    const term = csomTerm('a', 'Norway', {
+      Labels: {
+        _Child_Items_: [
+          { Language: 1044, Value: 'Noreg', IsDefaultForLanguage: false },
+          { Language: 1044, Value: 'Norge', IsDefaultForLanguage: true },
+          { Language: 1033, Value: 'Norway', IsDefaultForLanguage: true }
+        ]
+      }
+    });
+    expect(getTermLabels(term)).toEqual([
+      { language: 1033, value: 'Norway', isDefault: true },
+      { language: 1044, value: 'Norge', isDefault: true },
+      { language: 1044, value: 'Noreg', isDefault: false }
+    ]);
+  });
+});
+
+describe('buildTermTree', () => {
+  it('nests terms by parent or path, in custom sort order or by name', () => {
+    const tree = buildTermTree(
+      terms.map(parseTerm),
+      'a0000000-0000-0000-0000-000000000001'
+    );
+    const names = (nodes: typeof tree): any[] =>
+      nodes.map(node =>
+        node.children.length ? [node.name, names(node.children)] : node.name
+      );
+    expect(names(tree)).toEqual([
+      ['Europe', [['Norway', ['Oslo', 'Bergen']]]],
+      'Asia'
+    ]);
+    expect(tree[0].children[0].children[0]).toMatchObject({
+      id: 'a0000000-0000-0000-0000-000000000004',
+      path: 'Europe;Norway;Oslo',
+      labels: [{ language: 1033, value: 'Oslo', isDefault: true }],
+      properties: { Code: 'OSL' }
+    });
+  });
+});
+
+describe('taxonomy of a fetcher', () => {
+  it('reads termsets from the default or a given term store, once', async () => {
+    const { fetcher, bodies } = await createTaxonomyFetcher(() =>
+      processQueryResponse({ 5: { _Child_Items_: terms } })
+    );
+    const read = await fetcher.getTermsetById(TERMSET);
+    expect(read.map(term => term.Id)).toEqual(
+      terms.map(term => parseTerm(term).Id)
+    );
+    await fetcher.getTermsetById(TERMSET);
+    await fetcher.getTermsetById(TERMSET, undefined, undefined, STORE);
+    expect(bodies).toHaveLength(2);
+    expect(bodies[0]).toContain('GetDefaultKeywordsTermStore');
+    expect(bodies[1]).toContain(`<Parameter Type="Guid">${STORE}</Parameter>`);
+  });
+
+  it('builds the tree of a termset in its custom sort order', async () => {
+    const { fetcher } = await createTaxonomyFetcher(body =>
+      /GetAllTerms/.test(body)
+        ? processQueryResponse({ 5: { _Child_Items_: terms } })
+        : processQueryResponse({
+            4: {
+              CustomSortOrder: 'a0000000-0000-0000-0000-000000000005'
+            }
+          })
+    );
+    const tree = await fetcher.getTermTree(TERMSET);
+    expect(tree.map(node => node.name)).toEqual(['Asia', 'Europe']);
+  });
+
+  it('lists term stores and groups, and finds termsets by name', async () => {
+    const { fetcher, bodies } = await createTaxonomyFetcher(body =>
+      /GetTermSetsByName/.test(body)
+        ? processQueryResponse({ 4: { _Child_Items_: [] } })
+        : /Name="Groups"/.test(body)
+        ? processQueryResponse({
+            4: {
+              _Child_Items_: [
+                { Id: `/Guid(${TERMSET})/`, Name: 'Site Collection - dev' }
+              ]
+            }
+          })
+        : processQueryResponse({
+            2: { _Child_Items_: [{ Id: `/Guid(${STORE})/`, Name: 'Taxonomy' }] }
+          })
+    );
+    expect(await fetcher.getTermStores()).toEqual([
+      { Id: STORE, Name: 'Taxonomy' }
+    ]);
+    expect(await fetcher.getTermGroups({ store: STORE })).toEqual([
+      { Id: TERMSET, Name: 'Site Collection - dev' }
+    ]);
+    await expect(
+      fetcher.getTermsetByName('Missing', 1044)
+    ).rejects.toBeInstanceOf(SPNotFoundError);
+    expect(bodies[2]).toContain(
+      '<Parameter Type="String">Missing</Parameter><Parameter Type="Int32">1044</Parameter>'
+    );
+  });
+
+  it('rejects with the ErrorInfo of failed requests', async () => {
+    const { fetcher } = await createTaxonomyFetcher(() => [
+      {
+        SchemaVersion: '15.0.0.0',
+        ErrorInfo: {
+          ErrorMessage: 'Termset not found',
+          ErrorTypeName: 'System.ArgumentException'
+        },
+        TraceCorrelationId: 'abc'
+      }
+    ]);
+    const error = await fetcher.getTermsetById(TERMSET).catch(error => error);
+    expect(error).toBeInstanceOf(SPFetcherError);
+    expect(error).toMatchObject({
+      message: 'Termset not found',
+      url: `${SITE_URL}/_vti_bin/client.svc/ProcessQuery`
+    });
+  });
+});
+
+describe('term management', () => {
+  const OSLO = 'a0000000-0000-0000-0000-000000000004';
+
+  /**
+   * A fetcher that answers every write with the term Oslo
+   */
+  const createWriter = () =>
+    createTaxonomyFetcher(() => processQueryResponse({ 91: terms[3] }));
+
+  it('creates terms below a termset or a term, and commits them', async () => {
+    const { fetcher, bodies } = await createWriter();
+    const term = await fetcher.createTerm('Oslo', { termset: TERMSET }, 1044);
+    expect(term).toMatchObject({ Id: OSLO, PathOfTerm: 'Europe;Norway;Oslo' });
+    await fetcher.createTerm('Oslo', { term: OSLO });
+    expect(bodies[0]).toContain(
+      `Name="GetTermSet"><Parameters><Parameter Type="Guid">${TERMSET}</Parameter>`
+    );
+    expect(bodies[0]).toMatch(
+      /Name="CreateTerm"><Parameters><Parameter Type="String">Oslo<\/Parameter><Parameter Type="Int32">1044<\/Parameter><Parameter Type="Guid">[0-9a-f-]{36}<\/Parameter>/
+    );
+    expect(bodies[0]).toContain(
+      '<Method Name="CommitAll" Id="90" ObjectPathId="2">'
+    );
+    expect(bodies[1]).toContain(
+      `<Method Id="3" ParentId="2" Name="GetTerm"><Parameters><Parameter Type="Guid">${OSLO}</Parameter>`
+    );
+  });
+
+  it('renames, labels, deprecates and moves terms', async () => {
+    const { fetcher, bodies } = await createWriter();
+    await fetcher.renameTerm(OSLO, 'Christiania & Oslo');
+    await fetcher.addTermLabel(OSLO, 'Kristiania', 1044);
+    await fetcher.setDefaultTermLabel(OSLO, 'Kristiania');
+    await fetcher.deleteTermLabel(OSLO, 'Kristiania');
+    await fetcher.deprecateTerm(OSLO, false);
+    await fetcher.moveTerm(OSLO, { termset: TERMSET });
+    expect(bodies[0]).toContain(
+      '<SetProperty Id="10" ObjectPathId="3" Name="Name"><Parameter Type="String">Christiania &amp; Oslo</Parameter></SetProperty>'
+    );
+    expect(bodies[1]).toContain(
+      '<Method Name="CreateLabel" Id="10" ObjectPathId="3"><Parameters><Parameter Type="String">Kristiania</Parameter><Parameter Type="Int32">1044</Parameter><Parameter Type="Boolean">false</Parameter>'
+    );
+    expect(bodies[2]).toContain(
+      '<Method Name="SetAsDefaultForLanguage" Id="10" ObjectPathId="5">'
+    );
+    expect(bodies[3]).toContain(
+      '<Method Name="DeleteObject" Id="10" ObjectPathId="5">'
+    );
+    expect(bodies[3]).toContain(
+      '<Method Id="5" ParentId="4" Name="GetByValue"><Parameters><Parameter Type="String">Kristiania</Parameter>'
+    );
+    expect(bodies[4]).toContain(
+      '<Method Name="Deprecate" Id="10" ObjectPathId="3"><Parameters><Parameter Type="Boolean">false</Parameter>'
+    );
+    expect(bodies[5]).toContain(
+      '<Method Name="Move" Id="10" ObjectPathId="3"><Parameters><Parameter ObjectPathId="4" />'
+    );
+  });
+
+  it('sets and deletes custom and local properties', async () => {
+    const { fetcher, bodies } = await createWriter();
+    await fetcher.setTermProperty(OSLO, 'Code', 'OSL');
+    await fetcher.setTermProperty(OSLO, 'Code', 'OSL', true);
+    await fetcher.setTermProperty(OSLO, 'Code', undefined, true);
+    expect(
+      bodies.map(
+        body => /<Method Name="(\w+)" Id="10"[^]*?<\/Parameters>/.exec(body)[0]
+      )
+    ).toEqual([
+      '<Method Name="SetCustomProperty" Id="10" ObjectPathId="3"><Parameters><Parameter Type="String">Code</Parameter><Parameter Type="String">OSL</Parameter></Parameters>',
+      '<Method Name="SetLocalCustomProperty" Id="10" ObjectPathId="3"><Parameters><Parameter Type="String">Code</Parameter><Parameter Type="String">OSL</Parameter></Parameters>',
+      '<Method Name="DeleteLocalCustomProperty" Id="10" ObjectPathId="3"><Parameters><Parameter Type="String">Code</Parameter></Parameters>'
+    ]);
+  });
+
+  it('deletes terms, and rejects writes to missing terms', async () => {
+    const { fetcher, bodies } = await createTaxonomyFetcher(() =>
+      processQueryResponse({ 91: {} })
+    );
+    expect(await fetcher.deleteTerm(OSLO)).toBeUndefined();
+    expect(bodies[0]).toMatch(
+      /<Method Name="DeleteObject" Id="10" ObjectPathId="3">.*<Method Name="CommitAll" Id="90" ObjectPathId="2">/
+    );
+    await expect(fetcher.renameTerm(OSLO, 'Oslo')).rejects.toBeInstanceOf(
+      SPNotFoundError
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { SPAbortError, SPFetcherError } from '../src';
+import {
+  getAlternativeName,
+  getChunkOffsets,
+  getUploadOffset
+} from '../src/SPFetcher.upload';
+import { createFetcher, SITE_URL } from './helpers';
+
+const FOLDER = '/sites/dev/Documents';
+
+const documents = {
+  lists: [
+    {
+      Title: 'Documents',
+      BaseTemplate: 101,
+      items: [
+        {
+          FileRef: `${FOLDER}/a.txt`,
+          FileLeafRef: 'a.txt',
+          File_x0020_Size: 3
+        }
+      ]
+    }
+  ]
+};
+
+/**
+ * Files in the emulated library, by name
+ */
+const getFiles = (emulator: { getList(web: string, list: string): any }) =>
+  emulator
+    .getList(SITE_URL, 'Documents')
+    .items.map(item => [item.FileLeafRef, item.File_x0020_Size]);
+
+describe('upload helpers', () => {
+  it('name alternatives, chunks and offsets', () => {
+    expect(getAlternativeName('report.docx', 2)).toBe('report (2).docx');
+    expect(getAlternativeName('README', 1)).toBe('README (1)');
+    expect(getChunkOffsets(10, 4)).toEqual([0, 4, 8]);
+    expect(getChunkOffsets(0, 4)).toEqual([]);
+    expect(getUploadOffset({ value: '8' })).toBe(8);
+    expect(getUploadOffset({ d: { ContinueUpload: '4' } })).toBe(4);
+  });
+});
+
+describe('uploadFile', () => {
+  it('uploads small files in one request, and sets metadata', async () => {
+    const { fetcher, emulator } = await createFetcher(documents);
+    const progress: number[] = [];
+    const file = await fetcher.uploadFile(
+      'Documents',
+      'b.txt',
+      new Blob(['hello']),
+      {
+        metadata: { Title: 'Greeting' },
+        onProgress: ({ loaded }) => progress.push(loaded)
+      }
+    );
+    expect(file).toMatchObject({
+      Name: 'b.txt',
+      ServerRelativeUrl: `${FOLDER}/b.txt`
+    });
+    expect(progress).toEqual([5]);
+    expect(
+      emulator
+        .getList(SITE_URL, 'Documents')
+        .items.find(item => item.FileLeafRef === 'b.txt')
+    ).toMatchObject({ Title: 'Greeting', File_x0020_Size: 5 });
+    expect(emulator.requests.some(({ url }) => /startUpload/i.test(url))).toBe(
+      false
+    );
+  });
+
+  it('uploads large files in chunks, reporting progress', async () => {
+    const { fetcher, emulator } = await createFetcher(documents);
+    const progress: number[] = [];
+    const events: number[] = [];
+    fetcher.on('uploadProgress', ({ loaded, total }) =>
+      events.push(loaded / total)
+    );
+    await fetcher.uploadFile(FOLDER, 'big.bin', new ArrayBuffer(10), {
+      chunkSize: 4,
+      onProgress: ({ loaded }) => progress.push(loaded)
+    });
+    expect(progress).toEqual([4, 8, 10]);
+    expect(events).toEqual([0.4, 0.8, 1]);
+    expect(
+      emulator.requests
+        .map(({ url }) => /\/(\w+Upload)\(/.exec(url))
+        .filter(match => match)
+        .map(match => match[1])
+    ).toEqual(['startUpload', 'continueUpload', 'finishUpload']);
+    expect(getFiles(emulator)).toContainEqual(['big.bin', 10]);
+  });
+
+  it('fails, renames or overwrites when the file exists', async () => {
+    const { fetcher, emulator } = await createFetcher(documents);
+    const error = await fetcher
+      .uploadFile('Documents', 'a.txt', new Blob(['new']))
+      .catch(error => error);
+    expect(error).toBeInstanceOf(SPFetcherError);
+    expect(error).toMatchObject({ status: 409, code: 'FileExists' });
+    await fetcher.uploadFile('Documents', 'a.txt', new Blob(['renamed']), {
+      conflict: 'rename'
+    });
+    await fetcher.uploadFile('Documents', 'a.txt', new Blob(['overwrite']), {
+      conflict: 'overwrite'
+    });
+    await fetcher.uploadFile('Documents', 'a.txt', new ArrayBuffer(6), {
+      conflict: 'rename',
+      chunkSize: 4
+    });
+    expect(getFiles(emulator)).toEqual([
+      ['a.txt', 9],
+      ['a (1).txt', 7],
+      ['a (2).txt', 6]
+    ]);
+  });
+
+  it('cancels the session and removes the file when a chunk fails', async () => {
+    const { fetcher, emulator } = await createFetcher(
+      documents,
+      (url, init, next) =>
+        /continueUpload/i.test(url)
+          ? Promise.resolve(new Response(null, { status: 500 }))
+          : next(url, init)
+    );
+    await expect(
+      fetcher.uploadFile('Documents', 'big.bin', new ArrayBuffer(10), {
+        chunkSize: 4
+      })
+    ).rejects.toMatchObject({ status: 500 });
+    expect(emulator.requests.some(({ url }) => /cancelUpload/i.test(url))).toBe(
+      true
+    );
+    expect(getFiles(emulator)).toEqual([['a.txt', 3]]);
+  });
+
+  it('stops when the signal aborts, keeping overwritten files', async () => {
+    const controller = new AbortController();
+    const { fetcher, emulator } = await createFetcher(
+      documents,
+      (url, init, next) => {
+        if (/continueUpload/i.test(url)) controller.abort();
+        return next(url, init);
+      }
+    );
+    await expect(
+      fetcher.uploadFile('Documents', 'a.txt', new ArrayBuffer(10), {
+        chunkSize: 4,
+        conflict: 'overwrite',
+        signal: controller.signal
+      })
+    ).rejects.toBeInstanceOf(SPAbortError);
+    expect(getFiles(emulator)).toEqual([['a.txt', 3]]);
+  });
+});
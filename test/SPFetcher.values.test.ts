@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { IListField } from '../src';
+import { normalizeItem, serializeItem } from '../src/SPFetcher.values';
+
+const field = (InternalName: string, type: string, extra = {}) =>
+  (({ InternalName, 'odata.type': type, ...extra } as unknown) as IListField);
+
+const fields = [
+  field('Title', 'SP.FieldText'),
+  field('Due', 'SP.FieldDateTime'),
+  field('Tags', 'SP.FieldMultiChoice'),
+  field('Project', 'SP.FieldLookup'),
+  field('Code', 'SP.FieldLookup', { LookupField: 'Code' }),
+  field('Related', 'SP.FieldLookup', { AllowMultipleValues: true }),
+  field('AssignedTo', 'SP.FieldUser'),
+  field('Link', 'SP.FieldUrl')
+];
+
+describe('serializeItem', () => {
+  it('serializes values per field type', async () => {
+    const logins: string[] = [];
+    const body = await serializeItem(
+      {
+        Title: 'Review',
+        Due: new Date('2020-05-01T10:00:00.000Z'),
+        Tags: 'Urgent',
+        Project: { id: 4 },
+        Related: [1, 2],
+        AssignedTo: 'ola@contoso.com',
+        Link: 'https://contoso.com',
+        Other: 'kept'
+      },
+      fields,
+      login => {
+        logins.push(login);
+        return Promise.resolve(12);
+      }
+    );
+    expect(body).toEqual({
+      Title: 'Review',
+      Due: '2020-05-01T10:00:00.000Z',
+      Tags: { results: ['Urgent'] },
+      ProjectId: 4,
+      RelatedId: { results: [1, 2] },
+      AssignedToId: 12,
+      Link: {
+        __metadata: { type: 'SP.FieldUrlValue' },
+        Url: 'https://contoso.com',
+        Description: 'https://contoso.com'
+      },
+      Other: 'kept'
+    });
+    expect(logins).toEqual(['ola@contoso.com']);
+  });
+
+  it('clears lookups with null', async () => {
+    expect(await serializeItem({ Project: null }, fields, undefined)).toEqual({
+      ProjectId: null
+    });
+  });
+
+  it('rejects values that do not fit the field', async () => {
+    await expect(
+      serializeItem({ Project: 'Apollo' }, fields, undefined)
+    ).rejects.toMatchObject({ code: 'InvalidValue' });
+  });
+});
+
+describe('normalizeItem', () => {
+  it('reads the lookup field, or Title when it is not set', () => {
+    const item = normalizeItem(
+      {
+        Id: 1,
+        Project: { Id: 4, Title: 'Apollo' },
+        Code: { Id: 5, Code: 'AP-1', Title: 'Apollo' },
+        Related: {
+          results: [
+            { Id: 1, Title: 'One' },
+            { Id: 2, Title: 'Two' }
+          ]
+        }
+      },
+      fields
+    );
+    expect(item.Project).toEqual({ id: 4, value: 'Apollo' });
+    expect(item.Code).toEqual({ id: 5, value: 'AP-1' });
+    expect(item.Related).toEqual([
+      { id: 1, value: 'One' },
+      { id: 2, value: 'Two' }
+    ]);
+  });
+
+  it('keeps the ids of lookups that were not expanded', () => {
+    const item = normalizeItem(
+      { Id: 1, Project: { __deferred: {} }, ProjectId: 4, RelatedId: [1, 2] },
+      fields
+    );
+    expect(item.Project).toEqual({ id: 4 });
+    expect(item.Related).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('normalizes users, dates, choices and urls', () => {
+    const item = normalizeItem(
+      {
+        Id: 1,
+        AssignedTo: { Id: 12, EMail: 'ola@contoso.com', Title: 'Ola' },
+        Due: '2020-05-01T10:00:00Z',
+        Tags: { results: ['Urgent'] },
+        Link: { Url: 'https://contoso.com', Description: 'Contoso' }
+      },
+      fields
+    );
+    expect(item.AssignedTo).toEqual({
+      id: 12,
+      email: 'ola@contoso.com',
+      title: 'Ola'
+    });
+    expect(item.Due).toEqual(new Date('2020-05-01T10:00:00Z'));
+    expect(item.Tags).toEqual(['Urgent']);
+    expect(item.Link).toEqual({
+      url: 'https://contoso.com',
+      description: 'Contoso'
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, ZipWriter } from '../src/SPFetcher.zip';
+import { createFetcher, readBlob, readZip } from './helpers';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the zip checksum', () => {
+    expect(crc32(encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('ZipWriter', () => {
+  it('writes files and folders that can be read back', async () => {
+    const zip = new ZipWriter();
+    zip.addFolder('/docs/');
+    zip.add('/docs/readme.txt', encode('Hello').buffer);
+    zip.add('docs/æøå.txt', encode('Blåbær').buffer);
+    const entries = readZip(await readBlob(zip.toBlob()));
+    expect(entries.map(({ name, text }) => ({ name, text }))).toEqual([
+      { name: 'docs/', text: '' },
+      { name: 'docs/readme.txt', text: 'Hello' },
+      { name: 'docs/æøå.txt', text: 'Blåbær' }
+    ]);
+    expect(entries[1].crc).toBe(crc32(encode('Hello')));
+  });
+
+  it('counts the bytes written', () => {
+    const zip = new ZipWriter();
+    zip.add('a.txt', encode('abc').buffer);
+    expect(zip.size).toBe(30 + 'a.txt'.length + 3);
+  });
+});
+
+describe('downloadFolder', () => {
+  const root = '/sites/dev/Documents';
+  const contents: { [url: string]: string } = {
+    [`${root}/Reports/summary.txt`]: 'Summary',
+    [`${root}/Reports/2020/q1.txt`]: 'Q1',
+    [`${root}/Reports/2020/Drafts/q2.txt`]: 'Q2',
+    [`${root}/Other.txt`]: 'Other'
+  };
+  const folders = ['Reports', 'Reports/2020', 'Reports/2020/Drafts'];
+  const library = {
+    Title: 'Documents',
+    BaseTemplate: 101,
+    items: [
+      ...folders.map(folder => ({
+        FileRef: `${root}/${folder}`,
+        FSObjType: 1
+      })),
+      ...Object.keys(contents).map(FileRef => ({ FileRef, FSObjType: 0 }))
+    ]
+  };
+
+  it('zips the files and subfolders of a nested folder', async () => {
+    const { fetcher } = await createFetcher(
+      { lists: [library] },
+      (url, init, next) => {
+        const file = /decodedurl='(.*)'\)\/\$value$/.exec(
+          decodeURIComponent(url)
+        );
+        return file
+          ? Promise.resolve(
+              contents[file[1]] === undefined
+                ? new Response(null, { status: 404 })
+                : new Response(contents[file[1]])
+            )
+          : next(url, init);
+      }
+    );
+    const result = await fetcher.downloadFolder(`${root}/Reports`);
+    expect(result.files).toBe(3);
+    expect(result.skipped).toEqual([]);
+    const entries = readZip(await readBlob(result.blob));
+    expect(
+      entries
+        .map(({ name, text }) => ({ name, text }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    ).toEqual([
+      { name: 'Reports/', text: '' },
+      { name: 'Reports/2020/', text: '' },
+      { name: 'Reports/2020/Drafts/', text: '' },
+      { name: 'Reports/2020/Drafts/q2.txt', text: 'Q2' },
+      { name: 'Reports/2020/q1.txt', text: 'Q1' },
+      { name: 'Reports/summary.txt', text: 'Summary' }
+    ]);
+  });
+});
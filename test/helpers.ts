@@ -0,0 +1,80 @@
+import { IEmulatorWeb, IFetcherOptions, SPFetcherBase } from '../src';
+import { createTestContext, SPEmulator } from '../src/testing';
+
+export const SITE_URL = 'https://contoso.sharepoint.com/sites/dev';
+
+/**
+ * Initialize a fetcher against an emulated site. Pass transport to
+ * intercept requests before they reach the emulator, and options to
+ * override the initialization options.
+ */
+export function createFetcher(
+  web: Partial<IEmulatorWeb> = {},
+  transport?: (
+    url: string,
+    init: RequestInit,
+    next: SPEmulator['transport']
+  ) => Promise<Response>,
+  options?: IFetcherOptions
+) {
+  const emulator = new SPEmulator([{ url: SITE_URL, ...web }]);
+  const send = transport
+    ? (url: string, init: RequestInit = {}) =>
+        transport(url, init, emulator.transport)
+    : emulator.transport;
+  const fetcher = new SPFetcherBase<any>();
+  return fetcher
+    .initialize(createTestContext(send, { siteUrl: SITE_URL }), {
+      transport: send,
+      retry: { maxAttempts: 1 },
+      ...options
+    })
+    .then(() => ({ fetcher, emulator }));
+}
+
+/**
+ * Read a blob the way a browser would
+ */
+export function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Read the entries of a stored (uncompressed) zip archive from its central
+ * directory
+ */
+export function readZip(buffer: ArrayBuffer) {
+  const view = new DataView(buffer);
+  const end = buffer.byteLength - 22;
+  if (view.getUint32(end, true) !== 0x06054b50)
+    throw new Error('No end of central directory');
+  const count = view.getUint16(end + 10, true);
+  const entries: { name: string; text: string; crc: number }[] = [];
+  let offset = view.getUint32(end + 16, true);
+  for (let idx = 0; idx < count; idx++) {
+    if (view.getUint32(offset, true) !== 0x02014b50)
+      throw new Error('Invalid central directory header');
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(
+      new Uint8Array(buffer, offset + 46, nameLength)
+    );
+    if (view.getUint32(local, true) !== 0x04034b50)
+      throw new Error(`Invalid local header for ${name}`);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    entries.push({
+      name,
+      crc,
+      text: new TextDecoder().decode(new Uint8Array(buffer, start, size))
+    });
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
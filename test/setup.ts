@@ -0,0 +1,14 @@
+// Requests resolve relative urls against the page in a browser, which PnP
+// relies on when it merges headers with new Request('')
+const NodeRequest = Request;
+
+class PageRequest extends NodeRequest {
+  constructor(input: RequestInfo | URL, init?: RequestInit) {
+    super(
+      typeof input === 'string' ? new URL(input, location.href).href : input,
+      init
+    );
+  }
+}
+
+globalThis.Request = PageRequest;
@@ -0,0 +1,4 @@
+// The real package needs the SharePoint page runtime. The fetcher only reads
+// the default client configuration at runtime; requests go through the
+// spHttpClient of the test context.
+export const SPHttpClient = { configurations: { v1: {} } };
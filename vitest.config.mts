@@ -0,0 +1,25 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // SPFx packages expect a browser
+    environment: 'jsdom',
+    environmentOptions: {
+      jsdom: { url: 'https://contoso.sharepoint.com/sites/dev' }
+    },
+    setupFiles: ['test/setup.ts'],
+    alias: {
+      '@microsoft/sp-http': fileURLToPath(
+        new URL('./test/stubs/sp-http.ts', import.meta.url)
+      )
+    },
+    server: {
+      deps: {
+        // @pnp and the SPFx packages are published as extensionless ES modules
+        inline: [/@pnp\//, /@microsoft\//]
+      }
+    }
+  }
+});